@@ -0,0 +1,131 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+import { ITopology } from "./interface";
+
+// VPCs accept /16 to /28, but the default public and private subnets across the AZs need room
+const LARGEST_PREFIX = 16;
+const SMALLEST_PREFIX = 24;
+// Each region is handed a /16 when allocating from a supernet
+const ALLOCATED_PREFIX = 16;
+
+interface IRange {
+  network: number;
+  prefix: number;
+}
+
+const toRange = (cidr: string): IRange => {
+  const [address, prefix] = cidr.split("/");
+  const network = address
+    .split(".")
+    .reduce((acc, octet) => acc * 256 + parseInt(octet), 0);
+  return { network, prefix: parseInt(prefix) };
+};
+
+const toCidr = ({ network, prefix }: IRange): string =>
+  `${[24, 16, 8, 0]
+    .map((shift) => Math.floor(network / 2 ** shift) % 256)
+    .join(".")}/${prefix}`;
+
+const size = ({ prefix }: IRange) => 2 ** (32 - prefix);
+
+const overlaps = (a: IRange, b: IRange) =>
+  a.network < b.network + size(b) && b.network < a.network + size(a);
+
+// Label each region's cidr by where it sits in the topology for error messages
+const labelledCidrs = ({ client, workers }: ITopology) =>
+  [
+    { label: `client (${client.region})`, cidr: client.cidr },
+    ...workers.map(({ region, cidr }, i) => ({
+      label: `workers[${i}] (${region})`,
+      cidr,
+    })),
+  ].filter(({ cidr }) => cidr !== undefined);
+
+/** Allocate Cidrs
+ *
+ * Hands out a non-overlapping /16 from the supernet to the client and every worker that has omitted
+ * its cidr, skipping any ranges already taken by regions that set theirs explicitly
+ *
+ * @param topology - The validated topology, which is updated in place
+ * @param supernet - The range to allocate from, e.g. 10.0.0.0/8
+ */
+export function allocateCidrs(topology: ITopology, supernet: string): string[] {
+  const pool = toRange(supernet);
+  if (pool.prefix > ALLOCATED_PREFIX) {
+    return [
+      `cidrSupernet ${supernet} must be /${ALLOCATED_PREFIX} or larger to allocate /${ALLOCATED_PREFIX}s from`,
+    ];
+  }
+  const taken = labelledCidrs(topology).map(({ cidr }) => toRange(cidr));
+  const step = 2 ** (32 - ALLOCATED_PREFIX);
+  let next = pool.network - (pool.network % size(pool));
+
+  // Regions without a cidr are only accepted from the topology file when a supernet is given
+  const entries: { region: string; cidr?: string }[] = [
+    topology.client,
+    ...topology.workers,
+  ];
+  const errors: string[] = [];
+  for (const entry of entries) {
+    if (entry.cidr !== undefined) continue;
+    while (
+      next < pool.network + size(pool) &&
+      taken.some((range) =>
+        overlaps(range, { network: next, prefix: ALLOCATED_PREFIX })
+      )
+    ) {
+      next += step;
+    }
+    if (next >= pool.network + size(pool)) {
+      errors.push(
+        `cidrSupernet ${supernet} has no /16 left for ${entry.region}`
+      );
+      continue;
+    }
+    entry.cidr = toCidr({ network: next, prefix: ALLOCATED_PREFIX });
+    taken.push(toRange(entry.cidr));
+  }
+  return errors;
+}
+
+/** Validate Cidrs
+ *
+ * Traffic between regions is routed by cidr over the transit gateways, so every range must be a
+ * correctly aligned block that a VPC accepts, and no two regions may overlap
+ *
+ * @param topology - The topology, with every cidr set
+ */
+export function validateCidrs(topology: ITopology): string[] {
+  const errors: string[] = [];
+  const ranges = labelledCidrs(topology).map((entry) => ({
+    ...entry,
+    range: toRange(entry.cidr),
+  }));
+
+  for (const { label, cidr, range } of ranges) {
+    if (range.prefix < LARGEST_PREFIX || range.prefix > SMALLEST_PREFIX) {
+      errors.push(
+        `${label} cidr ${cidr} must be between /${LARGEST_PREFIX} and /${SMALLEST_PREFIX}`
+      );
+    } else if (range.network % size(range) !== 0) {
+      errors.push(
+        `${label} cidr ${cidr} has host bits set, did you mean ${toCidr({
+          network: range.network - (range.network % size(range)),
+          prefix: range.prefix,
+        })}?`
+      );
+    }
+  }
+  ranges.forEach((a, i) =>
+    ranges
+      .slice(i + 1)
+      .filter((b) => overlaps(a.range, b.range))
+      .forEach((b) =>
+        errors.push(
+          `${a.label} cidr ${a.cidr} overlaps ${b.label} cidr ${b.cidr}`
+        )
+      )
+  );
+  return errors;
+}
@@ -0,0 +1,350 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+import {
+  IComputeProfile,
+  IInstanceSpec,
+  ISpotProfile,
+  ITopology,
+  IWorker,
+} from "./interface";
+
+// A compute profile with every field filled in, Spot capacity is only added when it's been asked for
+export type ResolvedComputeProfile = Required<Omit<IComputeProfile, "spot">> & {
+  spot?: Required<ISpotProfile>;
+};
+
+// The profile each worker region starts from, any field set on the worker overrides it
+export const defaultComputeProfile: Required<
+  Omit<IComputeProfile, "spot" | "backlogPerTask" | "cpuUnits">
+> = {
+  instanceType: "m5d.4xlarge",
+  minInstances: 0,
+  maxInstances: 12,
+  workersPerTask: 10,
+  threadsPerWorker: 3,
+  memoryReservationMiB: 25000,
+  minTasks: 0,
+  maxTasks: 16,
+  instanceSpecs: {},
+};
+
+// Dask workers listen on consecutive ports from here, the nannies on the ports straight after
+export const WORKER_BASE_PORT = 9000;
+// The ECS agent and operating system need some of the instance's memory to themselves
+const RESERVED_MEMORY_FRACTION = 0.1;
+// Below this a worker process spends more time spilling to disk than computing
+const MIN_MEMORY_PER_WORKER_MIB = 1024;
+
+// Dask workers are mostly I/O bound, so a task only reserves half a vCPU for each of its workers
+const CPU_UNITS_PER_WORKER = 512;
+
+const vcpusBySize: { [size: string]: number } = {
+  medium: 1,
+  large: 2,
+  xlarge: 4,
+  "2xlarge": 8,
+  "3xlarge": 12,
+  "4xlarge": 16,
+  "6xlarge": 24,
+  "8xlarge": 32,
+  "9xlarge": 36,
+  "12xlarge": 48,
+  "16xlarge": 64,
+  "18xlarge": 72,
+  "24xlarge": 96,
+  "32xlarge": 128,
+  "48xlarge": 192,
+};
+// The network interfaces the c, m and r instances of each size can attach
+const maxEnisBySize: { [size: string]: number } = {
+  medium: 2,
+  large: 3,
+  xlarge: 4,
+  "2xlarge": 4,
+  "3xlarge": 8,
+  "4xlarge": 8,
+  "6xlarge": 8,
+  "8xlarge": 8,
+  "9xlarge": 8,
+  "12xlarge": 8,
+  "16xlarge": 15,
+  "18xlarge": 15,
+  "24xlarge": 15,
+  "32xlarge": 15,
+  "48xlarge": 15,
+};
+// The memory a Fargate task can be given at each cpu size, in steps of stepMiB
+const fargateTaskSizes = [
+  { cpu: 1024, minMiB: 2048, maxMiB: 8192, stepMiB: 1024 },
+  { cpu: 2048, minMiB: 4096, maxMiB: 16384, stepMiB: 1024 },
+  { cpu: 4096, minMiB: 8192, maxMiB: 30720, stepMiB: 1024 },
+  { cpu: 8192, minMiB: 16384, maxMiB: 61440, stepMiB: 4096 },
+  { cpu: 16384, minMiB: 32768, maxMiB: 122880, stepMiB: 8192 },
+];
+const memoryPerVcpuGiBByFamily: { [family: string]: number } = {
+  c: 2,
+  m: 4,
+  r: 8,
+};
+
+/**
+ * The vCPUs, memory and network interfaces of an instance type, as given in the profile's
+ * instanceSpecs or else worked out for the x86 general purpose, compute and memory optimised
+ * instances from generation 5 on (e.g. m5d.4xlarge, c6i.2xlarge, m5zn.large, m7i-flex.xlarge).
+ * Undefined for any other instance type, including metal and Graviton instances
+ *
+ * @param instanceType - The instance type. e.g. m5d.4xlarge
+ * @param instanceSpecs - The specs set in the compute profile, by instance type
+ */
+export function instanceSpec(
+  instanceType: string,
+  instanceSpecs: { [instanceType: string]: IInstanceSpec } = {}
+): IInstanceSpec | undefined {
+  if (instanceSpecs[instanceType]) return instanceSpecs[instanceType];
+  const match = /^([cmr])(\d+)([a-z]*)(-flex)?\.([0-9]*x?large|medium)$/.exec(
+    instanceType
+  );
+  if (
+    !match ||
+    parseInt(match[2]) < 5 ||
+    // The worker image is built for x86
+    match[3].includes("g") ||
+    vcpusBySize[match[5]] === undefined
+  ) {
+    return undefined;
+  }
+  const vcpus = vcpusBySize[match[5]];
+  return {
+    vcpus,
+    memoryMiB: vcpus * memoryPerVcpuGiBByFamily[match[1]] * 1024,
+    maxEnis: maxEnisBySize[match[5]],
+  };
+}
+
+/**
+ * The instance types of an EC2 profile that the profile can't be checked against, as neither the
+ * profile nor instanceSpec knows their specs
+ *
+ * @param profile - The resolved compute profile
+ */
+export function uncheckedInstanceTypes(
+  profile: ResolvedComputeProfile
+): string[] {
+  return [profile.instanceType, ...(profile.spot?.instanceTypes ?? [])].filter(
+    (instanceType, i, instanceTypes) =>
+      instanceTypes.indexOf(instanceType) === i &&
+      !instanceSpec(instanceType, profile.instanceSpecs)
+  );
+}
+
+/**
+ * The smallest Fargate task size with a vCPU for each worker and room for the memory reservation,
+ * or undefined if the profile is too big to run on Fargate
+ *
+ * @param profile - The resolved compute profile
+ */
+export function fargateTaskSize(
+  profile: ResolvedComputeProfile
+): { cpu: number; memoryLimitMiB: number } | undefined {
+  const size = fargateTaskSizes.find(
+    ({ cpu, maxMiB }) =>
+      cpu / 1024 >= profile.workersPerTask &&
+      maxMiB >= profile.memoryReservationMiB
+  );
+  if (!size) return undefined;
+  return {
+    cpu: size.cpu,
+    memoryLimitMiB: Math.max(
+      size.minMiB,
+      Math.ceil(profile.memoryReservationMiB / size.stepMiB) * size.stepMiB
+    ),
+  };
+}
+
+/**
+ * The worker's compute profile with the defaults filled in for anything it hasn't set. The Spot
+ * group defaults to the on-demand instance type and size, with the first task kept on-demand
+ *
+ * @param worker - Object of the worker containing pieces such as worker region, cidr and data
+ */
+export function computeProfile(worker: IWorker): ResolvedComputeProfile {
+  const { spot, ...compute } = worker.compute ?? {};
+  const sized = { ...defaultComputeProfile, ...compute };
+  const profile = {
+    backlogPerTask: sized.workersPerTask * sized.threadsPerWorker,
+    cpuUnits: sized.workersPerTask * CPU_UNITS_PER_WORKER,
+    ...sized,
+  };
+  if (!spot) return profile;
+  return {
+    ...profile,
+    spot: {
+      instanceTypes: [profile.instanceType],
+      maxInstances: profile.maxInstances,
+      onDemandPercent: 0,
+      onDemandBaseTasks: 1,
+      ...spot,
+    },
+  };
+}
+
+/**
+ * Check the tasks of a profile fit on an instance type. An instance type whose specs aren't known
+ * isn't checked, the worker stack warns about it instead
+ *
+ * @param location - Where the instance type was set, used to prefix errors
+ * @param instanceType - The instance type tasks may be placed on
+ * @param profile - The resolved compute profile
+ * @returns The problems found, and how many tasks fit on one instance if the specs are known
+ */
+function checkInstanceType(
+  location: string,
+  instanceType: string,
+  profile: ResolvedComputeProfile
+): { errors: string[]; tasksPerInstance?: number } {
+  const spec = instanceSpec(instanceType, profile.instanceSpecs);
+  if (!spec) return { errors: [] };
+  const errors: string[] = [];
+  const usableMemoryMiB = Math.floor(
+    spec.memoryMiB * (1 - RESERVED_MEMORY_FRACTION)
+  );
+  if (profile.memoryReservationMiB > usableMemoryMiB) {
+    errors.push(
+      `${location} memoryReservationMiB ${profile.memoryReservationMiB} doesn't fit on a ${instanceType}, which has ${usableMemoryMiB} MiB usable`
+    );
+  }
+  if (profile.workersPerTask > spec.vcpus) {
+    errors.push(
+      `${location} workersPerTask ${profile.workersPerTask} is more than the ${spec.vcpus} vCPUs of a ${instanceType}`
+    );
+  }
+  if (profile.cpuUnits > spec.vcpus * 1024) {
+    errors.push(
+      `${location} cpuUnits ${profile.cpuUnits} is more than the ${
+        spec.vcpus * 1024
+      } CPU units of a ${instanceType}`
+    );
+  }
+  return {
+    errors,
+    tasksPerInstance: Math.min(
+      Math.floor(usableMemoryMiB / profile.memoryReservationMiB),
+      Math.floor((spec.vcpus * 1024) / profile.cpuUnits),
+      // Each awsvpc task attaches its own network interface, besides the instance's own
+      spec.maxEnis - 1
+    ),
+  };
+}
+
+/** Validate Compute
+ *
+ * Checks each worker's compute profile fits on its instance type, so a task that can never be
+ * placed or a range that can never be reached is caught before deploying
+ *
+ * @param topology - The validated topology
+ */
+export function validateCompute(topology: ITopology): string[] {
+  const errors: string[] = [];
+  topology.workers.forEach((worker, i) => {
+    const location = `workers[${i}].compute`;
+    const profile = computeProfile(worker);
+
+    if (profile.minInstances > profile.maxInstances) {
+      errors.push(`${location} minInstances is above maxInstances`);
+    }
+    if (profile.minTasks > profile.maxTasks) {
+      errors.push(`${location} minTasks is above maxTasks`);
+    }
+    // Scaling on the backlog steps through at least two tiers, which a single task can't make
+    if (profile.maxTasks < 2) {
+      errors.push(
+        `${location} maxTasks must be at least 2 to scale on the backlog`
+      );
+    }
+    if (WORKER_BASE_PORT + profile.workersPerTask * 2 > 65536) {
+      errors.push(`${location} workersPerTask needs more ports than exist`);
+    }
+
+    if (worker.workerLaunchType === "FARGATE") {
+      if (profile.spot) {
+        errors.push(`${location}.spot only applies to EC2 workers`);
+      }
+      if (!fargateTaskSize(profile)) {
+        errors.push(
+          `${location} workersPerTask ${profile.workersPerTask} with memoryReservationMiB ${profile.memoryReservationMiB} doesn't fit in a Fargate task, which has at most 16 vCPUs and 120 GiB`
+        );
+      }
+      checkWorkerMemory(location, profile, errors);
+      return;
+    }
+
+    // Placement is only checked once a task fits on every instance type it may land on, and each
+    // of their specs is known
+    const onDemand = checkInstanceType(location, profile.instanceType, profile);
+    const typeErrors = [...onDemand.errors];
+    let maxPlaceableTasks =
+      onDemand.tasksPerInstance === undefined
+        ? undefined
+        : onDemand.tasksPerInstance * profile.maxInstances;
+
+    const { spot } = profile;
+    if (spot) {
+      if (spot.onDemandPercent > 100) {
+        errors.push(`${location}.spot onDemandPercent must be at most 100`);
+      }
+      if (spot.onDemandBaseTasks > profile.maxTasks) {
+        errors.push(
+          `${location}.spot onDemandBaseTasks is above the compute maxTasks`
+        );
+      }
+      // A Spot task may land on any of the types, so count how many fit on the smallest
+      const spotTypes = spot.instanceTypes.map((instanceType) =>
+        checkInstanceType(`${location}.spot`, instanceType, profile)
+      );
+      spotTypes.forEach((checked) => typeErrors.push(...checked.errors));
+      const spotTasksPerInstance = spotTypes.map(
+        ({ tasksPerInstance }) => tasksPerInstance
+      );
+      maxPlaceableTasks =
+        maxPlaceableTasks === undefined ||
+        spotTasksPerInstance.some((tasks) => tasks === undefined)
+          ? undefined
+          : maxPlaceableTasks +
+            Math.min(...(spotTasksPerInstance as number[])) * spot.maxInstances;
+    }
+
+    errors.push(...typeErrors);
+    if (
+      typeErrors.length === 0 &&
+      maxPlaceableTasks !== undefined &&
+      maxPlaceableTasks < profile.maxTasks
+    ) {
+      errors.push(
+        `${location} maxTasks ${profile.maxTasks} can't all be placed on ${
+          profile.maxInstances
+        } ${profile.instanceType} instances${
+          spot ? ` and ${spot.maxInstances} Spot instances` : ""
+        }`
+      );
+    }
+    checkWorkerMemory(location, profile, errors);
+  });
+  return errors;
+}
+
+// Each worker process needs enough of the task's memory to hold its partitions
+function checkWorkerMemory(
+  location: string,
+  profile: ResolvedComputeProfile,
+  errors: string[]
+) {
+  if (
+    profile.memoryReservationMiB / profile.workersPerTask <
+    MIN_MEMORY_PER_WORKER_MIB
+  ) {
+    errors.push(
+      `${location} memoryReservationMiB leaves less than ${MIN_MEMORY_PER_WORKER_MIB} MiB for each of the ${profile.workersPerTask} workers`
+    );
+  }
+}
@@ -9,58 +9,94 @@ import { WorkerRegion } from "../lib/WorkerConstructs/worker-region-stack";
 import { WorkerRegionTransitGatewayRoute } from "../lib/WorkerConstructs/worker-region-tgw-route";
 import { WorkerToWorkerTGW } from "../lib/WorkerConstructs/worker-to-worker-tgw";
 import { AwsSolutionsChecks } from "cdk-nag";
-import { client, workers } from "./variables";
+import { loadTopology } from "./topology";
+import { openSearchProfile } from "./opensearch";
 import { SyncLustreToOpenSearch } from "../lib/WorkerConstructs/sync-lustre-to-opensearch";
+import { deploymentName } from "../lib/deployment-name";
+import { checkWorkerTransfers } from "../lib/worker-transfers";
 
 const app = new App();
-// The clients configuration which includes the region and cidr range to which the notebook and scheduler will sit
+// The clients configuration which includes the region and cidr range to which the notebook and scheduler will sit,
+// along with the worker regions. Loaded from `-c topology=<file>` or falls back to bin/variables.ts
+const {
+  client,
+  workers,
+  tls = false,
+  mode = "mesh",
+  workerTransfers = false,
+} = loadTopology(app);
 
 /**
  * Create the clients region where the notebook and scheduler will be located
  */
-const clientStack = new ClientRegion(app, "Client-Region", {
-  env: {
-    region: client.region,
-  },
-  clientCidr: client.cidr,
-  workers,
-  description: "Guidance for Distributed Compute on AWS with Cross Regional Dask (SO9190)",
-});
+const clientStack = new ClientRegion(
+  app,
+  deploymentName(app, "Client-Region"),
+  {
+    env: {
+      region: client.region,
+      account: client.account,
+    },
+    clientCidr: client.cidr,
+    workers,
+    dashboard: client.dashboard,
+    tls,
+    openSearch: openSearchProfile(client),
+    description:
+      "Guidance for Distributed Compute on AWS with Cross Regional Dask (SO9190)",
+  }
+);
 
 // This array will contain the contruct classes of workers which allow us to interconnect them later dynamically
 const WorkerStacks: WorkerRegion[] = [];
 // Load through each worker connecting each
 for (const worker of workers) {
   // Create the base infrastucture for workers, not yet connecting them
-  const Worker = new WorkerRegion(app, `Worker-Region-${worker.region}`, {
-    env: {
-      region: worker.region,
-    },
-    client,
-    worker,
-  });
+  const Worker = new WorkerRegion(
+    app,
+    deploymentName(app, `Worker-Region-${worker.region}`),
+    {
+      env: {
+        region: worker.region,
+        account: worker.account,
+      },
+      client,
+      worker,
+      workers,
+      tls,
+      mode,
+      workerTransfers,
+    }
+  );
   Worker.addDependency(clientStack);
   // Wait until the peer to the client region has been established and then add to the tgw route table
   // a route from the worker region to the tgw
   new WorkerRegionTransitGatewayRoute(
     app,
-    `Worker-Region-TGW-Route-${worker.region}`,
+    deploymentName(app, `Worker-Region-TGW-Route-${worker.region}`),
     {
       env: {
         region: worker.region,
+        account: worker.account,
       },
       client,
       tgw: Worker.tgw,
       attachmentId: Worker.attachmentID,
+      // In hub mode the other worker regions are routed through the client's tgw rather than peered
+      hubWorkers:
+        mode === "hub"
+          ? workers.filter(({ region }) => region !== worker.region)
+          : undefined,
     }
   ).addDependency(Worker);
   // Subsequently we must now add on the client side the same route to their TGW route table, same process
   new ClientToWorkerTransitGatewayRoute(
     app,
-    `Client-Region-TGW-Route-${worker.region}`,
+    deploymentName(app, `Client-Region-TGW-Route-${worker.region}`),
     {
       env: {
         region: client.region,
+        account: client.account,
       },
       clientTgw: clientStack.clientTGW,
       worker,
@@ -69,33 +105,46 @@ for (const worker of workers) {
   WorkerStacks.push(Worker);
 }
 
-// Connect each worker to each other in a dynamic format
+// Connect each worker to each other in a dynamic format. Only a mesh peers the workers, which takes
+// three stacks for every pair of regions, hub routes through the client and none doesn't connect them
 const index = [...Array(workers.length).keys()];
 // Loop each worker by each worker in a form where each worker's connection is visited only once
 for (const x in workers) {
   const StackWait: WorkerToWorkerTGW[] = [];
-  for (const y of index.slice(parseInt(x) + 1, index.length)) {
+  const peers =
+    mode === "mesh" ? index.slice(parseInt(x) + 1, index.length) : [];
+  for (const y of peers) {
     // First we create the neccessary peer connection adding what we can at this early point in time
     const W2WTransitGateway = new WorkerToWorkerTGW(
       app,
-      `TGW-Peer-Region-${workers[x].region}-to-${workers[y].region}`,
+      deploymentName(
+        app,
+        `TGW-Peer-Region-${workers[x].region}-to-${workers[y].region}`
+      ),
       {
         env: {
           region: workers[x].region,
+          account: workers[x].account,
         },
         peerWorker: workers[y],
         vpc: WorkerStacks[x].vpc,
       }
     );
+    // The peer's transit gateway, and its cross account role if there is one, must exist first
+    W2WTransitGateway.addDependency(WorkerStacks[y]);
     StackWait.push(W2WTransitGateway);
 
     // We then want to add from worker to worker the transit gateway route
     const WRTGWRoute = new WorkerRegionTransitGatewayRoute(
       app,
-      `Worker-Region-TGW-Route-${workers[x].region}-to-${workers[y].region}`,
+      deploymentName(
+        app,
+        `Worker-Region-TGW-Route-${workers[x].region}-to-${workers[y].region}`
+      ),
       {
         env: {
           region: workers[x].region,
+          account: workers[x].account,
         },
         client: workers[y],
         tgw: WorkerStacks[x].tgw,
@@ -106,10 +155,14 @@ for (const x in workers) {
     // And finally the inverse of what's done above
     new InterRegionTransitGatewayRoute(
       app,
-      `Inter-Region-TGW-Route-${workers[y].region}-to-${workers[x].region}`,
+      deploymentName(
+        app,
+        `Inter-Region-TGW-Route-${workers[y].region}-to-${workers[x].region}`
+      ),
       {
         env: {
           region: workers[y].region,
+          account: workers[y].account,
         },
         peerWorker: workers[x],
         tgw: WorkerStacks[y].tgw,
@@ -121,10 +174,11 @@ for (const x in workers) {
   // instance to publish the results to opensearch
   const lustreToOS = new SyncLustreToOpenSearch(
     app,
-    `ZyncLustreToOpenSearch-${workers[x].region}`,
+    deploymentName(app, `ZyncLustreToOpenSearch-${workers[x].region}`),
     {
       env: {
         region: workers[x].region,
+        account: workers[x].account,
       },
       client: client,
       worker: workers[x],
@@ -133,5 +187,10 @@ for (const x in workers) {
     }
   );
 }
+// The routes between worker regions and the security group rules opening their worker ports must agree
+app.node.addValidation({
+  validate: () =>
+    checkWorkerTransfers(app, WorkerStacks, workers, workerTransfers),
+});
 // CDK nag reports are outputted into the dist folder as csv files
 Aspects.of(app).add(new AwsSolutionsChecks({ reports: true }));
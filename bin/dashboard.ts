@@ -0,0 +1,50 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+import { IClient } from "./interface";
+
+/** Validate Dashboard
+ *
+ * Checks the dashboard's certificate comes from exactly one place and can be attached to the load
+ * balancer in the client region, that its name sits within the private zone, and that users sign
+ * in through at most one identity provider
+ *
+ * @param client - The validated client region
+ */
+export function validateDashboard(client: IClient): string[] {
+  const { dashboard } = client;
+  if (dashboard === undefined) return [];
+  const errors: string[] = [];
+
+  const { certificateArn, certificateAuthorityArn } = dashboard;
+  if (
+    (certificateArn === undefined) ===
+    (certificateAuthorityArn === undefined)
+  ) {
+    errors.push(
+      "client.dashboard needs exactly one of certificateArn or certificateAuthorityArn"
+    );
+  }
+  // A load balancer can only use certificates from its own region, and the private CA issues into it
+  for (const [field, arn] of [
+    ["certificateArn", certificateArn],
+    ["certificateAuthorityArn", certificateAuthorityArn],
+  ]) {
+    if (arn !== undefined && arn.split(":")[3] !== client.region) {
+      errors.push(
+        `client.dashboard.${field} must be in the client region ${client.region}`
+      );
+    }
+  }
+
+  if (!dashboard.domainName.endsWith(`.${dashboard.zoneName}`)) {
+    errors.push(
+      `client.dashboard.domainName ${dashboard.domainName} must be within the zone ${dashboard.zoneName}`
+    );
+  }
+
+  if (dashboard.oidc !== undefined && dashboard.cognito !== undefined) {
+    errors.push("client.dashboard can use either oidc or cognito, not both");
+  }
+  return errors;
+}
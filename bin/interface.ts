@@ -1,13 +1,177 @@
 // Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
 // SPDX-License-Identifier: MIT-0
 
+export interface IOidcAuthentication {
+  issuer: string;
+  authorizationEndpoint: string;
+  tokenEndpoint: string;
+  userInfoEndpoint: string;
+  clientId: string;
+  // The Secrets Manager secret in the client region holding the identity provider's client secret
+  clientSecretName: string;
+}
+export interface ICognitoAuthentication {
+  userPoolArn: string;
+  userPoolClientId: string;
+  // The user pool's domain prefix, e.g. dask-users for dask-users.auth.<region>.amazoncognito.com
+  userPoolDomain: string;
+}
+export interface IDashboard {
+  // The name the dashboard is served on, e.g. dask.example.internal
+  domainName: string;
+  // The private hosted zone created in the client VPC to hold the dashboard's record
+  zoneName: string;
+  // An ACM certificate for the domain name, or a private CA to issue one from
+  certificateArn?: string;
+  certificateAuthorityArn?: string;
+  // Users sign in through one of these before reaching the dashboard, otherwise anyone in the VPC can
+  oidc?: IOidcAuthentication;
+  cognito?: ICognitoAuthentication;
+}
+export interface IOpenSearchDashboards {
+  // The prefix of the Cognito domain users sign in to Dashboards on, e.g. dask-catalog for
+  // dask-catalog.auth.<region>.amazoncognito.com
+  userPoolDomain: string;
+}
+export interface IOpenSearchProfile {
+  // The OpenSearch version, e.g. 2.11. The domain is upgraded in place, it can't go back a version
+  engineVersion?: string;
+  // Instance types end in .search, e.g. r6g.large.search, and default to r5.large.search
+  dataNodes?: number;
+  dataNodeInstanceType?: string;
+  // Dedicated master nodes, 0, 3 or 5
+  masterNodes?: number;
+  masterNodeInstanceType?: string;
+  // The EBS storage of each data node
+  volumeSizeGiB?: number;
+  // UltraWarm nodes, which need dedicated master nodes
+  warmNodes?: number;
+  warmNodeInstanceType?: "ultrawarm1.medium.search" | "ultrawarm1.large.search";
+  // Places the domain in a single availability zone, with one data node and no dedicated master nodes
+  // unless they're set, for development
+  singleAz?: boolean;
+  // Authenticates every request in the security plugin, with a master user kept in Secrets Manager
+  // and the notebook and indexers mapped to read only and writer roles
+  fineGrainedAccessControl?: boolean;
+  // Serves OpenSearch Dashboards within the VPC, signing users in through a Cognito user pool
+  dashboards?: IOpenSearchDashboards;
+}
 export interface IClient {
   region: string;
   cidr: string;
+  // The account to deploy to, defaults to the account of the cli credentials
+  account?: string;
+  // Serves the scheduler dashboard over HTTPS on an internal load balancer, rather than plain HTTP
+  dashboard?: IDashboard;
+  // Defaults to the figures in bin/opensearch.ts
+  openSearch?: IOpenSearchProfile;
+}
+// The changes to objects in a bucket that lustre can follow as they happen
+export type DataRepositoryEvent = "NEW" | "CHANGED" | "DELETED";
+export interface IDataset {
+  // The public s3 dataset, e.g. s3://era5-pds
+  dataset: string;
+  // Where the dataset is mapped to under /fsx/<region>/
+  lustreFileSystemPath: string;
+  // The OpenSearch index the dataset is catalogued in, defaults to the bucket name
+  indexName: string;
+  // Bucket changes imported into lustre as they happen. The bucket has to let FSx add an event
+  // notification to it, which a public bucket owned by someone else won't
+  autoImport?: DataRepositoryEvent[];
+  // Lustre changes written back to the bucket as they happen, which needs write access to it
+  autoExport?: DataRepositoryEvent[];
+}
+export interface ISpotProfile {
+  // The instance types Spot capacity is drawn from, the more types the fewer interruptions
+  instanceTypes?: string[];
+  maxInstances?: number;
+  // The share of the Spot group's instances launched on-demand instead (0-100)
+  onDemandPercent?: number;
+  // Tasks always placed on the on-demand group before any are placed on the Spot group
+  onDemandBaseTasks?: number;
+}
+// What the profile is checked against for an instance type it doesn't know, or knows wrongly
+export interface IInstanceSpec {
+  vcpus: number;
+  memoryMiB: number;
+  // The network interfaces the instance can attach, including its own
+  maxEnis: number;
+}
+export interface IComputeProfile {
+  // The instance type of the worker cluster's autoscaling group
+  instanceType?: string;
+  minInstances?: number;
+  maxInstances?: number;
+  // Dask worker processes per task, and threads per worker process
+  workersPerTask?: number;
+  threadsPerWorker?: number;
+  memoryReservationMiB?: number;
+  // The CPU units (1024 to a vCPU) each EC2 task reserves on its instance, defaults to half a vCPU
+  // per worker
+  cpuUnits?: number;
+  minTasks?: number;
+  maxTasks?: number;
+  // The queued and processing Dask tasks one ECS task is scaled to work through, defaults to one per
+  // worker thread
+  backlogPerTask?: number;
+  // Adds a mixed-instances group that the service places tasks on, mostly running on Spot
+  spot?: ISpotProfile;
+  // The specs of instance types outside the c, m and r families from generation 5 on, by type
+  instanceSpecs?: { [instanceType: string]: IInstanceSpec };
+}
+export interface ILustreProfile {
+  // 1200 GiB or a multiple of 2400 GiB
+  storageCapacityGiB?: number;
+  // The MB/s of throughput per TiB of storage of a PERSISTENT_2 file system: 125, 250, 500 or 1000
+  perUnitStorageThroughput?: number;
+  // PERSISTENT_2 by default. SCRATCH_2 is cheaper but not replicated, and links its single dataset
+  // when it is created rather than keeping it in sync
+  deploymentType?: "PERSISTENT_2" | "SCRATCH_2";
+  dataCompression?: "NONE" | "LZ4";
+  // Days of automatic backups a PERSISTENT_2 file system keeps, and the UTC time they start (HH:MM)
+  automaticBackupRetentionDays?: number;
+  dailyAutomaticBackupStartTime?: string;
+  // Whether the file system outlives the stack, DESTROY by default
+  removalPolicy?: "DESTROY" | "RETAIN";
+  // Which of the VPC's private subnets the file system sits in, the first by default
+  subnetIndex?: number;
+  // When the full metadata import of every dataset runs, as an EventBridge cron or rate expression.
+  // Midnight UTC by default, and none turns it off to rely on autoImport alone, indexing nightly
+  refreshSchedule?: string;
+  // The hours the import and indexing can go without a successful run before the updates topic is
+  // alarmed, up to 168
+  refreshAlarmHours?: number;
 }
 export interface IWorker {
   region: string;
   cidr: string;
-  dataset: string;
-  lustreFileSystemPath: string;
+  account?: string;
+  datasets: IDataset[];
+  // Defaults to the figures in bin/compute.ts
+  compute?: IComputeProfile;
+  // EC2 by default, FARGATE runs the workers without instances, reading the datasets from s3
+  workerLaunchType?: "EC2" | "FARGATE";
+  // Defaults to the figures in bin/lustre.ts
+  lustre?: ILustreProfile;
+  // SERVERLESS by default, which syncs only what changed in each dataset. EC2 keeps an instance running
+  // that rebuilds every index from the lustre mount
+  indexer?: "SERVERLESS" | "EC2";
+}
+// How worker regions reach each other: mesh peers every pair of worker transit gateways, hub routes
+// through the client's transit gateway and none leaves each worker region to talk only to the client
+export type TopologyMode = "mesh" | "hub" | "none";
+export interface ITopology {
+  client: IClient;
+  workers: IWorker[];
+  // Opt-in range (e.g. 10.0.0.0/8) to allocate a /16 from for any region that omits its cidr
+  cidrSupernet?: string;
+  // Identifies this deployment (e.g. dev), namespacing every resource so several can share an account
+  deployment?: string;
+  // Runs the scheduler, workers and notebook over tls:// with certificates rotated in Secrets Manager
+  tls?: boolean;
+  // Defaults to mesh
+  mode?: TopologyMode;
+  // Opens each region's worker and nanny ports to the other worker regions, so Dask can move data
+  // between workers directly. Needs the mesh or hub mode to route between them
+  workerTransfers?: boolean;
 }
@@ -0,0 +1,151 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+import { ILustreProfile, ITopology, IWorker } from "./interface";
+
+// A lustre profile with every field filled in, backups are only kept when they've been asked for
+export type ResolvedLustreProfile = Required<
+  Omit<
+    ILustreProfile,
+    | "perUnitStorageThroughput"
+    | "automaticBackupRetentionDays"
+    | "dailyAutomaticBackupStartTime"
+  >
+> &
+  Pick<
+    ILustreProfile,
+    | "perUnitStorageThroughput"
+    | "automaticBackupRetentionDays"
+    | "dailyAutomaticBackupStartTime"
+  >;
+
+// The file system each worker region starts from, any field set on the worker overrides it
+export const defaultLustreProfile: Required<
+  Omit<
+    ILustreProfile,
+    "automaticBackupRetentionDays" | "dailyAutomaticBackupStartTime"
+  >
+> = {
+  storageCapacityGiB: 1200,
+  perUnitStorageThroughput: 1000,
+  deploymentType: "PERSISTENT_2",
+  dataCompression: "NONE",
+  removalPolicy: "DESTROY",
+  subnetIndex: 0,
+  refreshSchedule: "cron(0 0 * * ? *)",
+  // A nightly run that fails is caught by the next night's
+  refreshAlarmHours: 36,
+};
+
+const PERSISTENT_2_THROUGHPUTS = [125, 250, 500, 1000];
+// The longest FSx keeps automatic backups for
+const MAX_BACKUP_RETENTION_DAYS = 90;
+// The longest an alarm of hourly periods can evaluate
+const MAX_REFRESH_ALARM_HOURS = 7 * 24;
+
+/**
+ * The worker's lustre profile with the defaults filled in for anything it hasn't set. Only a
+ * PERSISTENT_2 file system has a throughput tier
+ *
+ * @param worker - Object of the worker containing pieces such as worker region, cidr and data
+ */
+export function lustreProfile(worker: IWorker): ResolvedLustreProfile {
+  const profile = { ...defaultLustreProfile, ...worker.lustre };
+  return profile.deploymentType === "PERSISTENT_2"
+    ? profile
+    : { ...profile, perUnitStorageThroughput: undefined };
+}
+
+/**
+ * Where a worker's lustre file system is mounted on the instances using it. The datasets sit under
+ * /fsx/<region>/, and a SCRATCH_2 file system holds its one dataset at its root
+ *
+ * @param worker - Object of the worker containing pieces such as worker region, cidr and data
+ */
+export function lustreMountPoint(worker: IWorker): string {
+  return lustreProfile(worker).deploymentType === "SCRATCH_2"
+    ? `/fsx/${worker.region}/${worker.datasets[0].lustreFileSystemPath}`
+    : "/fsx";
+}
+
+/** Validate Lustre
+ *
+ * Checks each worker's lustre profile is a file system FSx can create, and that a SCRATCH_2 file
+ * system is only asked for what it supports
+ *
+ * @param topology - The validated topology
+ */
+export function validateLustre(topology: ITopology): string[] {
+  const errors: string[] = [];
+  topology.workers.forEach((worker, i) => {
+    const location = `workers[${i}].lustre`;
+    const profile = lustreProfile(worker);
+    const scratch = profile.deploymentType === "SCRATCH_2";
+
+    if (
+      profile.storageCapacityGiB !== 1200 &&
+      profile.storageCapacityGiB % 2400 !== 0
+    ) {
+      errors.push(
+        `${location} storageCapacityGiB ${profile.storageCapacityGiB} must be 1200 or a multiple of 2400`
+      );
+    }
+    if (scratch) {
+      if (worker.lustre?.perUnitStorageThroughput !== undefined) {
+        errors.push(
+          `${location} perUnitStorageThroughput only applies to PERSISTENT_2`
+        );
+      }
+      if (
+        profile.automaticBackupRetentionDays !== undefined ||
+        profile.dailyAutomaticBackupStartTime !== undefined
+      ) {
+        errors.push(`${location} SCRATCH_2 file systems can't be backed up`);
+      }
+      if (worker.lustre?.refreshSchedule !== undefined) {
+        errors.push(`${location} refreshSchedule only applies to PERSISTENT_2`);
+      }
+      if (
+        worker.datasets.some(
+          ({ autoImport, autoExport }) => autoImport || autoExport
+        )
+      ) {
+        errors.push(
+          `${location} SCRATCH_2 doesn't link its dataset, so it can't autoImport or autoExport`
+        );
+      }
+      // A scratch file system imports a single bucket path when it is created
+      if (worker.datasets.length > 1) {
+        errors.push(
+          `${location} SCRATCH_2 can only link one dataset, workers[${i}] has ${worker.datasets.length}`
+        );
+      }
+    } else if (
+      !PERSISTENT_2_THROUGHPUTS.includes(profile.perUnitStorageThroughput ?? 0)
+    ) {
+      errors.push(
+        `${location} perUnitStorageThroughput must be one of ${PERSISTENT_2_THROUGHPUTS.join(
+          ", "
+        )}`
+      );
+    }
+
+    const retention = profile.automaticBackupRetentionDays;
+    if (retention !== undefined && retention > MAX_BACKUP_RETENTION_DAYS) {
+      errors.push(
+        `${location} automaticBackupRetentionDays must be at most ${MAX_BACKUP_RETENTION_DAYS}`
+      );
+    }
+    if (profile.dailyAutomaticBackupStartTime !== undefined && !retention) {
+      errors.push(
+        `${location} dailyAutomaticBackupStartTime needs automaticBackupRetentionDays`
+      );
+    }
+    if (profile.refreshAlarmHours > MAX_REFRESH_ALARM_HOURS) {
+      errors.push(
+        `${location} refreshAlarmHours must be at most ${MAX_REFRESH_ALARM_HOURS}`
+      );
+    }
+  });
+  return errors;
+}
@@ -0,0 +1,94 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+import { IClient, IOpenSearchProfile } from "./interface";
+
+// An OpenSearch profile with every field filled in, the instance types are left to the CDK defaults
+// and Dashboards is only served when it's asked for
+export type ResolvedOpenSearchProfile = Required<
+  Omit<
+    IOpenSearchProfile,
+    "dataNodeInstanceType" | "masterNodeInstanceType" | "dashboards"
+  >
+> &
+  Pick<
+    IOpenSearchProfile,
+    "dataNodeInstanceType" | "masterNodeInstanceType" | "dashboards"
+  >;
+
+// The domain the client region starts from, any field set on the client overrides it
+export const defaultOpenSearchProfile: Required<
+  Omit<
+    IOpenSearchProfile,
+    "dataNodeInstanceType" | "masterNodeInstanceType" | "dashboards"
+  >
+> = {
+  engineVersion: "1.3",
+  dataNodes: 2,
+  masterNodes: 3,
+  volumeSizeGiB: 10,
+  warmNodes: 0,
+  warmNodeInstanceType: "ultrawarm1.medium.search",
+  singleAz: false,
+  fineGrainedAccessControl: false,
+};
+
+// A single availability zone domain starts from the smallest one that can run
+const singleAzDefaults = { dataNodes: 1, masterNodes: 0 };
+
+const MASTER_NODE_COUNTS = [0, 3, 5];
+// UltraWarm needs at least this many warm nodes
+const MIN_WARM_NODES = 2;
+
+/**
+ * The client's OpenSearch profile with the defaults filled in for anything it hasn't set
+ *
+ * @param client - Object of the client containing pieces such as client region and cidr
+ */
+export function openSearchProfile(client: IClient): ResolvedOpenSearchProfile {
+  return {
+    ...defaultOpenSearchProfile,
+    ...(client.openSearch?.singleAz && singleAzDefaults),
+    ...client.openSearch,
+  };
+}
+
+/** Validate OpenSearch
+ *
+ * Checks the client's OpenSearch profile is a domain OpenSearch Service can create, with its data
+ * nodes spread evenly across the availability zones and UltraWarm backed by dedicated master nodes
+ *
+ * @param client - The validated client region
+ */
+export function validateOpenSearch(client: IClient): string[] {
+  const location = "client.openSearch";
+  const errors: string[] = [];
+  const profile = openSearchProfile(client);
+
+  if (!MASTER_NODE_COUNTS.includes(profile.masterNodes)) {
+    errors.push(
+      `${location} masterNodes must be one of ${MASTER_NODE_COUNTS.join(", ")}`
+    );
+  }
+  if (!profile.singleAz && profile.dataNodes % 2 !== 0) {
+    errors.push(
+      `${location} dataNodes must be even to spread across two availability zones, or set singleAz`
+    );
+  }
+  if (profile.warmNodes > 0) {
+    if (profile.warmNodes < MIN_WARM_NODES) {
+      errors.push(
+        `${location} warmNodes must be at least ${MIN_WARM_NODES} for UltraWarm`
+      );
+    }
+    if (profile.masterNodes === 0) {
+      errors.push(`${location} UltraWarm needs dedicated masterNodes`);
+    }
+  } else if (client.openSearch?.warmNodeInstanceType !== undefined) {
+    errors.push(`${location} warmNodeInstanceType needs warmNodes`);
+  }
+  if (profile.masterNodes === 0 && profile.masterNodeInstanceType) {
+    errors.push(`${location} masterNodeInstanceType needs masterNodes`);
+  }
+  return errors;
+}
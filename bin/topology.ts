@@ -0,0 +1,663 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+import { App } from "aws-cdk-lib";
+import { RegionInfo } from "aws-cdk-lib/region-info";
+import { readFileSync } from "fs";
+import { parse } from "yaml";
+import { allocateCidrs, validateCidrs } from "./cidr";
+import { validateCompute } from "./compute";
+import { validateDashboard } from "./dashboard";
+import { validateLustre } from "./lustre";
+import { validateOpenSearch } from "./opensearch";
+import {
+  IClient,
+  ICognitoAuthentication,
+  IComputeProfile,
+  IDashboard,
+  IDataset,
+  IInstanceSpec,
+  ILustreProfile,
+  IOidcAuthentication,
+  IOpenSearchDashboards,
+  IOpenSearchProfile,
+  ISpotProfile,
+  ITopology,
+  IWorker,
+} from "./interface";
+import { client, workers } from "./variables";
+import path = require("path");
+
+// A rule checks a single field, returning a description of the problem or undefined if it is valid
+type FieldRule = (value: unknown) => string | undefined;
+// A nested rule checks a list or object field against its own schema, returning all problems found
+type NestedRule = { nested: (value: unknown, location: string) => string[] };
+// Mapping every key of the interface means a new field on IClient/IWorker won't compile until
+// it has been given a rule below
+type Schema<T> = { [K in keyof T]-?: FieldRule | NestedRule };
+
+const knownRegions = RegionInfo.regions.map(({ name }) => name);
+
+const isRegion: FieldRule = (value) => {
+  if (typeof value !== "string") return "must be a string";
+  if (!knownRegions.includes(value))
+    return `"${value}" is not a known AWS region`;
+  return undefined;
+};
+
+const isCidr: FieldRule = (value) => {
+  if (typeof value !== "string") return "must be a string";
+  const match = /^(\d{1,3})\.(\d{1,3})\.(\d{1,3})\.(\d{1,3})\/(\d{1,2})$/.exec(
+    value
+  );
+  if (
+    !match ||
+    match.slice(1, 5).some((octet) => parseInt(octet) > 255) ||
+    parseInt(match[5]) > 32
+  ) {
+    return `"${value}" is not a valid IPv4 CIDR block, e.g. 10.1.0.0/16`;
+  }
+  return undefined;
+};
+
+const isAccount: FieldRule = (value) => {
+  if (typeof value !== "string" || !/^\d{12}$/.test(value)) {
+    return `"${value}" is not a 12 digit AWS account id`;
+  }
+  return undefined;
+};
+
+const isS3Uri: FieldRule = (value) => {
+  if (typeof value !== "string") return "must be a string";
+  if (!/^s3:\/\/[a-z0-9][a-z0-9.-]{1,61}[a-z0-9](\/.*)?$/.test(value)) {
+    return `"${value}" is not an s3:// URI, e.g. s3://era5-pds`;
+  }
+  return undefined;
+};
+
+const isPath: FieldRule = (value) => {
+  if (typeof value !== "string" || value.length === 0) {
+    return "must be a non-empty string";
+  }
+  if (value.startsWith("/")) {
+    return `"${value}" must be relative, it is mounted under /fsx/<region>/`;
+  }
+  return undefined;
+};
+
+const isIndexName: FieldRule = (value) => {
+  if (typeof value !== "string") return "must be a string";
+  if (!/^[a-z0-9][a-z0-9_.-]*$/.test(value)) {
+    return `"${value}" is not a valid OpenSearch index name, use lowercase letters, numbers, - _ and .`;
+  }
+  return undefined;
+};
+
+const listOf = <T>(
+  schema: Schema<T>,
+  optional: (keyof T)[] = []
+): NestedRule => ({
+  nested: (value, location) => {
+    if (!Array.isArray(value) || value.length === 0) {
+      return [`${location} must be a non-empty list`];
+    }
+    return value.reduce<string[]>(
+      (errors, item, i) =>
+        errors.concat(checkObject(item, schema, `${location}[${i}]`, optional)),
+      []
+    );
+  },
+});
+
+// Every field of the nested object may be left out unless the optional fields are given
+const objectOf = <T>(
+  schema: Schema<T>,
+  optional: (keyof T)[] = Object.keys(schema) as (keyof T)[]
+): NestedRule => ({
+  nested: (value, location) => checkObject(value, schema, location, optional),
+});
+
+// Every key of the map must pass its rule, and every value the schema with all its fields set
+const mapOf = <T>(key: FieldRule, schema: Schema<T>): NestedRule => ({
+  nested: (value, location) => {
+    if (typeof value !== "object" || value === null || Array.isArray(value)) {
+      return [`${location} must be an object`];
+    }
+    return Object.entries(value).reduce<string[]>((errors, [name, item]) => {
+      const problem = key(name);
+      return errors.concat(
+        problem ? [`${location} key ${problem}`] : [],
+        checkObject(item, schema, `${location}.${name}`)
+      );
+    }, []);
+  },
+});
+
+const isCount =
+  (min: number): FieldRule =>
+  (value) => {
+    if (typeof value !== "number" || !Number.isInteger(value) || value < min) {
+      return `must be a whole number of at least ${min}`;
+    }
+    return undefined;
+  };
+
+const isInstanceType: FieldRule = (value) => {
+  if (
+    typeof value !== "string" ||
+    !/^[a-z][a-z0-9-]*\.[a-z0-9]+$/.test(value)
+  ) {
+    return `"${value}" is not an instance type, e.g. m5d.4xlarge`;
+  }
+  return undefined;
+};
+
+const isInstanceTypes: FieldRule = (value) => {
+  if (!Array.isArray(value) || value.length === 0) {
+    return "must be a non-empty list of instance types";
+  }
+  const problems = value
+    .map(isInstanceType)
+    .filter((problem): problem is string => problem !== undefined);
+  return problems.length > 0 ? problems.join(", ") : undefined;
+};
+
+const isSearchInstanceType: FieldRule = (value) => {
+  if (
+    typeof value !== "string" ||
+    !/^[a-z][a-z0-9-]*\.[a-z0-9]+\.search$/.test(value)
+  ) {
+    return `"${value}" is not an OpenSearch instance type, e.g. r6g.large.search`;
+  }
+  return undefined;
+};
+
+const isEngineVersion: FieldRule = (value) => {
+  if (typeof value !== "string" || !/^\d+\.\d+$/.test(value)) {
+    return `"${value}" is not an OpenSearch version, e.g. 2.11`;
+  }
+  return undefined;
+};
+
+const isCognitoDomainPrefix: FieldRule = (value) => {
+  if (
+    typeof value !== "string" ||
+    !/^[a-z0-9](?:[a-z0-9-]{0,61}[a-z0-9])?$/.test(value) ||
+    /aws|amazon|cognito/.test(value)
+  ) {
+    return `"${value}" must be a lowercase domain prefix without aws, amazon or cognito, e.g. dask-catalog`;
+  }
+  return undefined;
+};
+
+const isLaunchType: FieldRule = (value) => {
+  if (value !== "EC2" && value !== "FARGATE") {
+    return `"${value}" must be EC2 or FARGATE`;
+  }
+  return undefined;
+};
+
+const isDomainName: FieldRule = (value) => {
+  if (
+    typeof value !== "string" ||
+    !/^[a-z0-9]([a-z0-9-]*[a-z0-9])?(\.[a-z0-9]([a-z0-9-]*[a-z0-9])?)+$/.test(
+      value
+    )
+  ) {
+    return `"${value}" is not a lowercase domain name, e.g. dask.example.internal`;
+  }
+  return undefined;
+};
+
+const isArn =
+  (service: string, example: string): FieldRule =>
+  (value) => {
+    if (
+      typeof value !== "string" ||
+      !new RegExp(`^arn:aws[a-z-]*:${service}:[a-z0-9-]+:\\d{12}:.+$`).test(
+        value
+      )
+    ) {
+      return `"${value}" is not an ${service} arn, e.g. ${example}`;
+    }
+    return undefined;
+  };
+
+const isHttpsUrl: FieldRule = (value) => {
+  if (typeof value !== "string" || !/^https:\/\/[^\s/]+/.test(value)) {
+    return `"${value}" is not an https:// URL`;
+  }
+  return undefined;
+};
+
+const isName: FieldRule = (value) => {
+  if (typeof value !== "string" || value.length === 0) {
+    return "must be a non-empty string";
+  }
+  return undefined;
+};
+
+const isMode: FieldRule = (value) => {
+  if (value !== "mesh" && value !== "hub" && value !== "none") {
+    return `"${value}" must be mesh, hub or none`;
+  }
+  return undefined;
+};
+
+const isBoolean: FieldRule = (value) => {
+  if (typeof value !== "boolean") return "must be true or false";
+  return undefined;
+};
+
+const isOneOf =
+  (...values: string[]): FieldRule =>
+  (value) => {
+    if (typeof value !== "string" || !values.includes(value)) {
+      return `"${value}" must be one of ${values.join(", ")}`;
+    }
+    return undefined;
+  };
+
+const isTimeOfDay: FieldRule = (value) => {
+  if (typeof value !== "string" || !/^([01]\d|2[0-3]):[0-5]\d$/.test(value)) {
+    return `"${value}" is not a 24 hour HH:MM time, e.g. 03:00`;
+  }
+  return undefined;
+};
+
+const isDataRepositoryEvents: FieldRule = (value) => {
+  const events = ["NEW", "CHANGED", "DELETED"];
+  if (
+    !Array.isArray(value) ||
+    value.length === 0 ||
+    value.some(
+      (event, i) => !events.includes(event) || value.indexOf(event) !== i
+    )
+  ) {
+    return `must be a non-empty list of ${events.join(", ")} without repeats`;
+  }
+  return undefined;
+};
+
+const isSchedule: FieldRule = (value) => {
+  if (
+    value !== "none" &&
+    (typeof value !== "string" || !/^(cron|rate)\(.+\)$/.test(value))
+  ) {
+    return `"${value}" is not a cron or rate expression, e.g. cron(0 0 * * ? *), or none`;
+  }
+  return undefined;
+};
+
+const isDeployment: FieldRule = (value) => {
+  if (
+    typeof value !== "string" ||
+    !/^[a-z](?:[a-z0-9-]{0,14}[a-z0-9])?$/.test(value)
+  ) {
+    return `"${value}" must be up to 16 lowercase letters, numbers and hyphens, starting with a letter`;
+  }
+  return undefined;
+};
+
+// The optional settings which apply across the whole topology
+type ISettings = Omit<ITopology, "client" | "workers">;
+const settingsSchema: Schema<ISettings> = {
+  cidrSupernet: isCidr,
+  deployment: isDeployment,
+  tls: isBoolean,
+  mode: isMode,
+  workerTransfers: isBoolean,
+};
+
+const clientSchema: Schema<IClient> = {
+  region: isRegion,
+  cidr: isCidr,
+  account: isAccount,
+  dashboard: objectOf<IDashboard>(
+    {
+      domainName: isDomainName,
+      zoneName: isDomainName,
+      certificateArn: isArn(
+        "acm",
+        "arn:aws:acm:us-east-1:111111111111:certificate/<id>"
+      ),
+      certificateAuthorityArn: isArn(
+        "acm-pca",
+        "arn:aws:acm-pca:us-east-1:111111111111:certificate-authority/<id>"
+      ),
+      oidc: objectOf<IOidcAuthentication>(
+        {
+          issuer: isHttpsUrl,
+          authorizationEndpoint: isHttpsUrl,
+          tokenEndpoint: isHttpsUrl,
+          userInfoEndpoint: isHttpsUrl,
+          clientId: isName,
+          clientSecretName: isName,
+        },
+        []
+      ),
+      cognito: objectOf<ICognitoAuthentication>(
+        {
+          userPoolArn: isArn(
+            "cognito-idp",
+            "arn:aws:cognito-idp:us-east-1:111111111111:userpool/us-east-1_<id>"
+          ),
+          userPoolClientId: isName,
+          userPoolDomain: isName,
+        },
+        []
+      ),
+    },
+    ["certificateArn", "certificateAuthorityArn", "oidc", "cognito"]
+  ),
+  openSearch: objectOf<IOpenSearchProfile>({
+    engineVersion: isEngineVersion,
+    dataNodes: isCount(1),
+    dataNodeInstanceType: isSearchInstanceType,
+    masterNodes: isCount(0),
+    masterNodeInstanceType: isSearchInstanceType,
+    volumeSizeGiB: isCount(10),
+    warmNodes: isCount(0),
+    warmNodeInstanceType: isOneOf(
+      "ultrawarm1.medium.search",
+      "ultrawarm1.large.search"
+    ),
+    singleAz: isBoolean,
+    fineGrainedAccessControl: isBoolean,
+    dashboards: objectOf<IOpenSearchDashboards>(
+      { userPoolDomain: isCognitoDomainPrefix },
+      []
+    ),
+  }),
+};
+
+const workerSchema: Schema<IWorker> = {
+  region: isRegion,
+  cidr: isCidr,
+  account: isAccount,
+  datasets: listOf<IDataset>(
+    {
+      dataset: isS3Uri,
+      lustreFileSystemPath: isPath,
+      indexName: isIndexName,
+      autoImport: isDataRepositoryEvents,
+      autoExport: isDataRepositoryEvents,
+    },
+    ["indexName", "autoImport", "autoExport"]
+  ),
+  compute: objectOf<IComputeProfile>({
+    instanceType: isInstanceType,
+    minInstances: isCount(0),
+    maxInstances: isCount(1),
+    workersPerTask: isCount(1),
+    threadsPerWorker: isCount(1),
+    memoryReservationMiB: isCount(128),
+    cpuUnits: isCount(128),
+    minTasks: isCount(0),
+    maxTasks: isCount(1),
+    backlogPerTask: isCount(1),
+    spot: objectOf<ISpotProfile>({
+      instanceTypes: isInstanceTypes,
+      maxInstances: isCount(1),
+      onDemandPercent: isCount(0),
+      onDemandBaseTasks: isCount(0),
+    }),
+    instanceSpecs: mapOf<IInstanceSpec>(isInstanceType, {
+      vcpus: isCount(1),
+      memoryMiB: isCount(512),
+      maxEnis: isCount(2),
+    }),
+  }),
+  workerLaunchType: isLaunchType,
+  lustre: objectOf<ILustreProfile>({
+    storageCapacityGiB: isCount(1200),
+    perUnitStorageThroughput: isCount(1),
+    deploymentType: isOneOf("PERSISTENT_2", "SCRATCH_2"),
+    dataCompression: isOneOf("NONE", "LZ4"),
+    automaticBackupRetentionDays: isCount(0),
+    dailyAutomaticBackupStartTime: isTimeOfDay,
+    removalPolicy: isOneOf("DESTROY", "RETAIN"),
+    subnetIndex: isCount(0),
+    refreshSchedule: isSchedule,
+    refreshAlarmHours: isCount(1),
+  }),
+  indexer: isOneOf("SERVERLESS", "EC2"),
+};
+
+/**
+ * Check a single object against its schema, reporting missing, unknown and invalid fields
+ *
+ * @param value - The parsed object to check
+ * @param schema - The rules for each field of the interface
+ * @param location - Where in the topology the object sits, used to prefix errors
+ * @param optional - Fields which may be omitted
+ */
+function checkObject<T>(
+  value: unknown,
+  schema: Schema<T>,
+  location: string,
+  optional: (keyof T)[] = []
+): string[] {
+  if (typeof value !== "object" || value === null || Array.isArray(value)) {
+    return [`${location} must be an object`];
+  }
+  const errors: string[] = [];
+  const record = value as Record<string, unknown>;
+  for (const key of Object.keys(schema) as (keyof T & string)[]) {
+    if (record[key] === undefined) {
+      if (optional.includes(key)) continue;
+      errors.push(`${location}.${key} is required`);
+      continue;
+    }
+    const rule: FieldRule | NestedRule = schema[key];
+    if (typeof rule === "function") {
+      const error = rule(record[key]);
+      if (error) errors.push(`${location}.${key} ${error}`);
+    } else {
+      errors.push(...rule.nested(record[key], `${location}.${key}`));
+    }
+  }
+  for (const key of Object.keys(record)) {
+    if (!(key in schema))
+      errors.push(`${location}.${key} is not a known field`);
+  }
+  return errors;
+}
+
+/** Resolve Datasets
+ *
+ * Defaults each dataset's index to the name of its bucket, and checks that no two datasets share an
+ * index and that the lustre paths within a region don't overlap, as each becomes its own data
+ * repository association on the same file system
+ *
+ * @param topology - The topology, whose datasets are updated in place
+ */
+function resolveDatasets(topology: ITopology): string[] {
+  const errors: string[] = [];
+  const indexes: string[] = [];
+  topology.workers.forEach(({ datasets }, i) => {
+    const paths: string[] = [];
+    datasets.forEach((dataset, j) => {
+      const location = `workers[${i}].datasets[${j}]`;
+      dataset.indexName = dataset.indexName ?? dataset.dataset.split("/")[2];
+      if (indexes.includes(dataset.indexName)) {
+        errors.push(
+          `${location} index ${dataset.indexName} is already used by another dataset, set indexName to tell them apart`
+        );
+      }
+      indexes.push(dataset.indexName);
+
+      const lustrePath = dataset.lustreFileSystemPath.replace(/\/+$/, "");
+      const overlap = paths.find(
+        (other) =>
+          other === lustrePath ||
+          other.startsWith(`${lustrePath}/`) ||
+          lustrePath.startsWith(`${other}/`)
+      );
+      if (overlap !== undefined) {
+        errors.push(
+          `${location} lustreFileSystemPath ${lustrePath} overlaps ${overlap} in the same region`
+        );
+      }
+      paths.push(lustrePath);
+    });
+  });
+  return errors;
+}
+
+/** Validate Topology
+ *
+ * Checks a parsed topology against the IClient and IWorker schemas, allocates any omitted cidrs
+ * from the supernet and checks the ranges don't overlap. A single error is thrown listing every
+ * problem found so that they can all be fixed before the next synth
+ *
+ * @param raw - The parsed topology, typically loaded from a file or cdk context
+ * @param source - A description of where the topology came from, used in the error message
+ */
+export function validateTopology(raw: unknown, source: string): ITopology {
+  const errors: string[] = [];
+  if (typeof raw !== "object" || raw === null) {
+    errors.push("topology must be an object with client and workers");
+  } else {
+    const { client, workers, ...settings } = raw as Record<string, unknown>;
+    errors.push(
+      ...checkObject(
+        settings,
+        settingsSchema,
+        "topology",
+        Object.keys(settingsSchema) as (keyof ISettings)[]
+      )
+    );
+    // The cidr may only be left out when there is a supernet to allocate it from
+    const optional: ("cidr" | "account")[] =
+      settings.cidrSupernet === undefined ? ["account"] : ["account", "cidr"];
+    errors.push(
+      ...checkObject(client, clientSchema, "client", [
+        ...optional,
+        "dashboard",
+        "openSearch",
+      ])
+    );
+    errors.push(
+      ...listOf(workerSchema, [
+        ...optional,
+        "compute",
+        "workerLaunchType",
+        "lustre",
+        "indexer",
+      ]).nested(workers, "workers")
+    );
+
+    // Parameters and stacks are named after their region, so each region can only be used once
+    const regions = [client, ...(Array.isArray(workers) ? workers : [])]
+      .map((entry) => (entry as Partial<IClient> | undefined)?.region)
+      .filter((region): region is string => typeof region === "string");
+    regions
+      .filter((region, i) => regions.indexOf(region) !== i)
+      .filter((region, i, duplicates) => duplicates.indexOf(region) === i)
+      .forEach((region) =>
+        errors.push(`region ${region} is used more than once`)
+      );
+
+    // Mixing regions with and without an account would leave it up to the cli credentials which
+    // account the unset regions land in, so it's all or nothing
+    const accounts = [client, ...(Array.isArray(workers) ? workers : [])].map(
+      (entry) => (entry as Partial<IClient> | undefined)?.account
+    );
+    if (
+      accounts.some((account) => account === undefined) &&
+      accounts.some((account) => account !== undefined)
+    ) {
+      errors.push("account must be set on either every region or none");
+    }
+  }
+
+  // Only once the shape is known to be right can the ranges be compared
+  if (errors.length === 0) {
+    const topology = raw as ITopology;
+    if (topology.cidrSupernet !== undefined) {
+      errors.push(...allocateCidrs(topology, topology.cidrSupernet));
+    }
+    if (errors.length === 0) errors.push(...validateCidrs(topology));
+    errors.push(...resolveDatasets(topology));
+    errors.push(...validateCompute(topology));
+    errors.push(...validateLustre(topology));
+    errors.push(...validateDashboard(topology.client));
+    errors.push(...validateOpenSearch(topology.client));
+    if (topology.workerTransfers && topology.mode === "none") {
+      errors.push(
+        "workerTransfers needs the mesh or hub mode, none doesn't route between worker regions"
+      );
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid topology in ${source}:\n${errors
+        .map((error) => `  - ${error}`)
+        .join("\n")}`
+    );
+  }
+  return raw as ITopology;
+}
+
+/** Load Topology
+ *
+ * Resolves the client and worker regions to deploy. The `topology` context value may either point
+ * to a JSON/YAML file (e.g. `cdk synth -c topology=prod.yaml`) or hold the topology object itself
+ * (e.g. in cdk.json). Without it the defaults in bin/variables.ts are used.
+ *
+ * The deployment identifier may be given with `-c deployment=dev` instead of in the topology, and
+ * is kept in the app's context for the stacks to namespace their resources with.
+ *
+ * @param app - The CDK app whose context is read
+ */
+export function loadTopology(app: App): ITopology {
+  const topology = readTopology(app);
+  const deployment = app.node.tryGetContext("deployment");
+  if (deployment === undefined) {
+    if (topology.deployment !== undefined) {
+      app.node.setContext("deployment", topology.deployment);
+    }
+    return topology;
+  }
+  const error = isDeployment(deployment);
+  if (error) throw new Error(`Invalid deployment context value: ${error}`);
+  if (topology.deployment !== undefined && topology.deployment !== deployment) {
+    throw new Error(
+      `The deployment context value ${deployment} doesn't match the topology's deployment ${topology.deployment}`
+    );
+  }
+  return { ...topology, deployment };
+}
+
+/**
+ * Read and validate the topology from wherever the `topology` context value points to
+ *
+ * @param app - The CDK app whose context is read
+ */
+function readTopology(app: App): ITopology {
+  const context = app.node.tryGetContext("topology");
+  if (context === undefined) {
+    return validateTopology({ client, workers }, "bin/variables.ts");
+  }
+  if (typeof context !== "string") {
+    return validateTopology(context, "the topology context value");
+  }
+
+  const file = path.resolve(context);
+  let contents: string;
+  try {
+    contents = readFileSync(file, { encoding: "utf8" });
+  } catch (e) {
+    throw new Error(`Unable to read topology file ${file}: ${e.message}`);
+  }
+  let raw: unknown;
+  try {
+    raw =
+      path.extname(file) === ".json" ? JSON.parse(contents) : parse(contents);
+  } catch (e) {
+    throw new Error(`Unable to parse topology file ${file}: ${e.message}`);
+  }
+  return validateTopology(raw, file);
+}
@@ -1,7 +1,13 @@
 // Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
 // SPDX-License-Identifier: MIT-0
 
-import { Stack, App, StackProps, RemovalPolicy } from "aws-cdk-lib";
+import {
+  Stack,
+  App,
+  StackProps,
+  RemovalPolicy,
+  SecretValue,
+} from "aws-cdk-lib";
 import { Code, Repository } from "aws-cdk-lib/aws-codecommit";
 import {
   CfnRoute,
@@ -19,12 +25,15 @@ import {
 import {
   Cluster,
   ContainerImage,
+  FargateService,
   FargateTaskDefinition,
   LogDriver,
 } from "aws-cdk-lib/aws-ecs";
 import { ApplicationLoadBalancedFargateService } from "aws-cdk-lib/aws-ecs-patterns";
 import {
+  AccountPrincipal,
   CfnServiceLinkedRole,
+  Effect,
   ManagedPolicy,
   PolicyDocument,
   PolicyStatement,
@@ -34,27 +43,69 @@ import {
 import { Key } from "aws-cdk-lib/aws-kms";
 import { LogGroup } from "aws-cdk-lib/aws-logs";
 import { Domain, EngineVersion } from "aws-cdk-lib/aws-opensearchservice";
+import { Secret } from "aws-cdk-lib/aws-secretsmanager";
 import {
   CfnNotebookInstance,
   CfnNotebookInstanceLifecycleConfig,
 } from "aws-cdk-lib/aws-sagemaker";
 import { PrivateDnsNamespace, Service } from "aws-cdk-lib/aws-servicediscovery";
-import { StringParameter } from "aws-cdk-lib/aws-ssm";
-import { ApplicationLoadBalancer } from "aws-cdk-lib/aws-elasticloadbalancingv2";
+import {
+  ApplicationLoadBalancer,
+  ApplicationProtocol,
+  ApplicationTargetGroup,
+  ListenerAction,
+  ListenerCondition,
+} from "aws-cdk-lib/aws-elasticloadbalancingv2";
+import { AuthenticateCognitoAction } from "aws-cdk-lib/aws-elasticloadbalancingv2-actions";
+import {
+  Certificate,
+  ICertificate,
+  PrivateCertificate,
+} from "aws-cdk-lib/aws-certificatemanager";
+import { CertificateAuthority } from "aws-cdk-lib/aws-acmpca";
+import {
+  UserPool,
+  UserPoolClient,
+  UserPoolDomain,
+} from "aws-cdk-lib/aws-cognito";
+import { PrivateHostedZone } from "aws-cdk-lib/aws-route53";
 import { NagSuppressions } from "cdk-nag";
 import { secureBucket } from "./secure-bucket";
 import { DockerImageAsset, Platform } from "aws-cdk-lib/aws-ecr-assets";
-import {
-  AwsCustomResource,
-  AwsCustomResourcePolicy,
-} from "aws-cdk-lib/custom-resources";
 import { readFileSync } from "fs";
-import { IWorker } from "../../bin/interface";
+import { IDashboard, IWorker } from "../../bin/interface";
+import { ResolvedOpenSearchProfile } from "../../bin/opensearch";
+import {
+  CrossAccountRole,
+  crossAccountRoleArn,
+  trustedAccounts,
+} from "../SdkConstructs/cross-account-role";
+import { CrossRegionExport } from "../SdkConstructs/cross-region-reference";
+import { EnableRegistryScanning } from "../SdkConstructs/enable-registry-scanning";
+import { WorkerScalingApi } from "../WorkerConstructs/worker-scaling-api";
+import { deploymentName } from "../deployment-name";
+import {
+  DASK_TLS_ENTRYPOINT,
+  DASK_TLS_OPTIONS,
+  daskTlsSecretName,
+  daskTlsSecrets,
+  workerTlsParameterName,
+} from "../dask-tls";
+import { DaskTlsCertificates } from "./dask-tls-certificates";
+import { indexerRoleArn } from "../opensearch-access";
+import { OpenSearchSchema } from "./opensearch-schema";
+import { OpenSearchDashboards } from "./opensearch-dashboards";
+import { OperationsDashboard } from "./operations-dashboard";
+import { clientVpcParameterName, notebookRoleName } from "../notebook-access";
+import { poolMetricsNamespace } from "../pool-metrics";
 import path = require("path");
 
 export interface ClientRegionProps extends StackProps {
   clientCidr: string;
   workers: IWorker[];
+  dashboard?: IDashboard;
+  tls?: boolean;
+  openSearch: ResolvedOpenSearchProfile;
 }
 
 /**
@@ -66,17 +117,25 @@ export class ClientRegion extends Stack {
   vpc: Vpc;
   cluster: Cluster;
   schedulerDisovery: Service;
-  openSearchDomain: StringParameter;
-  openSearchArn: StringParameter;
+  schedulerService: FargateService;
+  openSearchDomain: CrossRegionExport;
+  openSearchArn: CrossRegionExport;
+  openSearchSchema: OpenSearchSchema;
+  daskTls?: DaskTlsCertificates;
 
   constructor(scope: App, id: string, props: ClientRegionProps) {
     super(scope, id, props);
-    const { clientCidr, workers } = props;
+    const { clientCidr, workers, dashboard, tls = false, openSearch } = props;
 
-    this.setupEnvironment(clientCidr, workers);
-    this.setupDaskScheduler(clientCidr, workers);
-    this.setupOpenSearch(workers);
-    this.setupSagemaker();
+    this.setupEnvironment(clientCidr, workers, tls);
+    this.setupDaskScheduler(clientCidr, workers, dashboard, tls);
+    this.setupOpenSearch(workers, openSearch);
+    this.setupSagemaker(workers);
+    new OperationsDashboard(this, "Operations Dashboard", {
+      workers,
+      schedulerService: this.schedulerService,
+      transitGatewayId: this.clientTGW.ref,
+    });
     NagSuppressions.addStackSuppressions(this, [
       {
         id: "AwsSolutions-IAM4",
@@ -100,8 +159,9 @@ export class ClientRegion extends Stack {
    *
    * @param clientCidr - The cidr range of client where the notebook sits
    * @param workers - An array of worker regions
+   * @param tls - Whether worker regions also read the parameter of their tls certificate
    */
-  setupEnvironment(clientCidr: string, workers: IWorker[]) {
+  setupEnvironment(clientCidr: string, workers: IWorker[], tls: boolean) {
     // Client VPC
     this.vpc = new Vpc(this, "Scheduler VPC", {
       ipAddresses: IpAddresses.cidr(clientCidr),
@@ -115,11 +175,17 @@ export class ClientRegion extends Stack {
       },
     });
 
+    // The worker regions associate the client VPC with the zones resolving their Lambda endpoints
+    new CrossRegionExport(this, "VPC Param", {
+      parameterName: clientVpcParameterName(this, this.region),
+      stringValue: this.vpc.vpcId,
+    });
+
     // Transit Gateway
     this.clientTGW = new CfnTransitGateway(this, "TGW");
     // We will need this parameter in other regions to connect to
-    new StringParameter(this, "TGW Param", {
-      parameterName: `tgw-param-${this.region}`,
+    new CrossRegionExport(this, "TGW Param", {
+      parameterName: deploymentName(this, `tgw-param-${this.region}`),
       stringValue: this.clientTGW.ref,
     });
     // Base attachment for connecting the local VPC to TGW
@@ -152,12 +218,15 @@ export class ClientRegion extends Stack {
      * simply reference the DNS which will resolve to the IP everytime
      */
     const PrivateNP = new PrivateDnsNamespace(this, "local-dask", {
-      name: "local-dask",
+      name: deploymentName(this, "local-dask"),
       vpc: this.vpc,
     });
     // Other regions will have to associate-vpc-with-hosted-zone to access this namespace
-    new StringParameter(this, "PrivateNP Param", {
-      parameterName: `privatenp-hostedid-param-${this.region}`,
+    new CrossRegionExport(this, "PrivateNP Param", {
+      parameterName: deploymentName(
+        this,
+        `privatenp-hostedid-param-${this.region}`
+      ),
       stringValue: PrivateNP.namespaceHostedZoneId,
     });
     this.schedulerDisovery = new Service(this, "Scheduler Discovery", {
@@ -165,9 +234,52 @@ export class ClientRegion extends Stack {
       namespace: PrivateNP,
     });
 
+    // Workers deployed to other accounts read the parameters above, accept the peering and
+    // authorise their VPC to associate with the namespace through this role
+    const accounts = trustedAccounts(this, workers);
+    if (accounts.length > 0) {
+      const role = new CrossAccountRole(this, "Cross Account Role", {
+        trustedAccounts: accounts,
+        parameterNames: [
+          deploymentName(this, `tgw-param-${this.region}`),
+          deploymentName(this, `privatenp-hostedid-param-${this.region}`),
+          clientVpcParameterName(this, this.region),
+          deploymentName(this, `client-opensearch-*-${this.region}`),
+          ...(tls ? [workerTlsParameterName(this, this.region)] : []),
+        ],
+      });
+      role.addToPolicy(
+        new PolicyStatement({
+          actions: [
+            "route53:CreateVPCAssociationAuthorization",
+            "route53:DeleteVPCAssociationAuthorization",
+          ],
+          resources: [
+            `arn:aws:route53:::hostedzone/${PrivateNP.namespaceHostedZoneId}`,
+          ],
+        })
+      );
+      // The worker regions' own zones, which they authorise this VPC to associate with
+      role.addToPolicy(
+        new PolicyStatement({
+          actions: [
+            "route53:AssociateVPCWithHostedZone",
+            "route53:DisassociateVPCFromHostedZone",
+          ],
+          resources: ["arn:aws:route53:::hostedzone/*"],
+        })
+      );
+      role.addToPolicy(
+        new PolicyStatement({
+          actions: ["ec2:DescribeVpcs"],
+          resources: ["*"],
+        })
+      );
+    }
+
     // Scheduler Cluster initialised as empty for later
     this.cluster = new Cluster(this, "Scheduler Cluster", {
-      clusterName: "DaskScheduler",
+      clusterName: deploymentName(this, "DaskScheduler"),
       containerInsights: true,
       vpc: this.vpc,
     });
@@ -180,15 +292,34 @@ export class ClientRegion extends Stack {
    * We manually publish the dashboard to 8787 which will be viewable from within the VPC. E.g. load from
    * a browser from cloud9 that sits inside the VPC
    *
+   * @param clientCidr - The cidr range of client where the notebook sits
    * @param workers - An array of the worker regions
+   * @param dashboard - Serves the dashboard internally over HTTPS when set, see setupDashboardAccess
+   * @param tls - Runs the scheduler over tls:// with a certificate from Secrets Manager
    */
-  setupDaskScheduler(clientCidr: string, workers: IWorker[]) {
+  setupDaskScheduler(
+    clientCidr: string,
+    workers: IWorker[],
+    dashboard: IDashboard | undefined,
+    tls: boolean
+  ) {
     // Fargate Definition
     const schedulerDefinition = new FargateTaskDefinition(
       this,
       "Scheduler Definition",
-      { family: "Dask-Scheduler", memoryLimitMiB: 32768, cpu: 16384 }
+      {
+        family: deploymentName(this, "Dask-Scheduler"),
+        memoryLimitMiB: 32768,
+        cpu: 16384,
+      }
     );
+    // With tls the scheduler, workers and notebook each present a certificate signed by the same CA
+    if (tls) {
+      this.daskTls = new DaskTlsCertificates(this, "Dask TLS", {
+        schedulerHost: `Dask-Scheduler.${deploymentName(this, "local-dask")}`,
+        workerAccounts: trustedAccounts(this, workers),
+      });
+    }
     // Container loads in from a versioned dask image on a fixed 8787 dashboard address
     schedulerDefinition.addContainer("Container", {
       containerName: "Dask",
@@ -199,12 +330,33 @@ export class ClientRegion extends Stack {
         })
       ),
       command: [
+        ...(this.daskTls ? [DASK_TLS_ENTRYPOINT] : []),
         "dask",
         "scheduler",
+        ...(this.daskTls ? DASK_TLS_OPTIONS : []),
         "--dashboard",
         "--dashboard-address",
         "8787",
+        "--preload",
+        "/opt/dask/pool_metrics.py",
       ],
+      // The preload publishes each worker pool's backlog to CloudWatch in the pool's region, which
+      // the worker services scale on
+      environment: {
+        DASK_METRICS_NAMESPACE: poolMetricsNamespace(this),
+        DASK_POOL_REGIONS: JSON.stringify(
+          workers.reduce<{ [region: string]: string }>(
+            (roles, worker) => ({
+              ...roles,
+              [worker.region]: crossAccountRoleArn(this, worker) ?? "",
+            }),
+            {}
+          )
+        ),
+      },
+      secrets: this.daskTls
+        ? daskTlsSecrets(this.daskTls.secrets.scheduler)
+        : undefined,
       essential: true,
       logging: LogDriver.awsLogs({
         streamPrefix: "ecs",
@@ -212,35 +364,27 @@ export class ClientRegion extends Stack {
       }),
       portMappings: [{ containerPort: 8787 }, { containerPort: 8786 }],
     });
-    NagSuppressions.addResourceSuppressions(
-      new AwsCustomResource(this, "Enable Scanning on Repo", {
-        onCreate: {
-          service: "ECR",
-          action: "putRegistryScanningConfiguration",
-          physicalResourceId: { id: "putRegistryScanningConfiguration" },
-          parameters: {
-            scanType: "ENHANCED",
-          },
-        },
-        policy: AwsCustomResourcePolicy.fromStatements([
-          new PolicyStatement({
-            actions: [
-              "iam:CreateServiceLinkedRole",
-              "inspector2:Enable",
-              "ecr:PutRegistryScanningConfiguration",
-            ],
-            resources: AwsCustomResourcePolicy.ANY_RESOURCE,
-          }),
-        ]),
-      }),
-      [
-        {
-          id: "AwsSolutions-IAM5",
-          reason: "Call needs access to all resources",
+    schedulerDefinition.addToTaskRolePolicy(
+      new PolicyStatement({
+        actions: ["cloudwatch:PutMetricData"],
+        resources: ["*"],
+        conditions: {
+          StringEquals: { "cloudwatch:namespace": poolMetricsNamespace(this) },
         },
-      ],
-      true
+      })
     );
+    const workerRoleArns = workers
+      .map((worker) => crossAccountRoleArn(this, worker))
+      .filter((arn): arn is string => arn !== undefined);
+    if (workerRoleArns.length > 0) {
+      schedulerDefinition.addToTaskRolePolicy(
+        new PolicyStatement({
+          actions: ["sts:AssumeRole"],
+          resources: workerRoleArns,
+        })
+      );
+    }
+    new EnableRegistryScanning(this, "Enable Scanning on Repo");
 
     // Only worker region cidr ranges should be allowed to connect on port 8786
     const SchedulerSecurityGroup = new SecurityGroup(
@@ -268,7 +412,7 @@ export class ClientRegion extends Stack {
     // Restricting it so that only those within the VPC have access
     albSecurityGroup.addIngressRule(
       Peer.ipv4(this.vpc.vpcCidrBlock),
-      Port.tcp(80),
+      Port.tcp(dashboard ? 443 : 80),
       "Scheduler dashboard access"
     );
     // Offered construct that launches and manages the connectivity of an ALB to Fargate
@@ -286,11 +430,13 @@ export class ClientRegion extends Stack {
         loadBalancer: new ApplicationLoadBalancer(this, "Dask-Scheduler-ALB", {
           vpc: this.vpc,
           securityGroup: albSecurityGroup,
-          internetFacing: true,
+          internetFacing: !dashboard,
         }),
         securityGroups: [SchedulerSecurityGroup],
+        ...(dashboard ? this.setupDashboardAccess(dashboard) : {}),
       }
     );
+    this.schedulerService = DaskService.service;
     DaskService.targetGroup.configureHealthCheck({
       path: "/status",
     });
@@ -300,6 +446,14 @@ export class ClientRegion extends Stack {
     DaskService.loadBalancer.logAccessLogs(
       secureBucket(this, "Dask-Scheduler-ALB-Access-Logs")
     );
+    if (dashboard?.oidc || dashboard?.cognito) {
+      // Every path is sent through sign in first, leaving the listener's default forward unreachable
+      DaskService.listener.addAction("Dashboard Sign In", {
+        priority: 1,
+        conditions: [ListenerCondition.pathPatterns(["/*"])],
+        action: this.dashboardSignIn(dashboard, DaskService.targetGroup),
+      });
+    }
     NagSuppressions.addResourceSuppressions(
       schedulerDefinition,
       [
@@ -308,19 +462,107 @@ export class ClientRegion extends Stack {
           reason:
             "Task role created by CDK has specific cloudwatch and ssm messages actions",
         },
+        {
+          id: "AwsSolutions-ECS2",
+          reason:
+            "The environment only holds the metrics namespace and the worker regions' role arns",
+        },
       ],
       true
     );
   }
 
+  /** Dashboard Access
+   *
+   * Rather than being open on port 80, the dashboard is served over HTTPS from an internal load balancer
+   * under a name in a private hosted zone of the client VPC. The certificate is either imported from
+   * ACM or issued by a private CA for the name
+   *
+   * @param dashboard - The client's dashboard settings
+   */
+  setupDashboardAccess(dashboard: IDashboard) {
+    const { domainName, zoneName, certificateArn, certificateAuthorityArn } =
+      dashboard;
+    const certificate: ICertificate = certificateArn
+      ? Certificate.fromCertificateArn(
+          this,
+          "Dashboard Certificate",
+          certificateArn
+        )
+      : new PrivateCertificate(this, "Dashboard Certificate", {
+          domainName,
+          certificateAuthority:
+            CertificateAuthority.fromCertificateAuthorityArn(
+              this,
+              "Dashboard Certificate Authority",
+              certificateAuthorityArn!
+            ),
+        });
+    return {
+      protocol: ApplicationProtocol.HTTPS,
+      certificate,
+      domainName,
+      domainZone: new PrivateHostedZone(this, "Dashboard Zone", {
+        zoneName,
+        vpc: this.vpc,
+      }),
+    };
+  }
+
+  /**
+   * The listener action signing users in through the dashboard's identity provider, before
+   * forwarding them on to the scheduler
+   *
+   * @param dashboard - The client's dashboard settings, with either oidc or cognito set
+   * @param targetGroup - The scheduler's target group
+   */
+  dashboardSignIn(
+    dashboard: IDashboard,
+    targetGroup: ApplicationTargetGroup
+  ): ListenerAction {
+    const next = ListenerAction.forward([targetGroup]);
+    const { oidc, cognito } = dashboard;
+    if (oidc) {
+      return ListenerAction.authenticateOidc({
+        issuer: oidc.issuer,
+        authorizationEndpoint: oidc.authorizationEndpoint,
+        tokenEndpoint: oidc.tokenEndpoint,
+        userInfoEndpoint: oidc.userInfoEndpoint,
+        clientId: oidc.clientId,
+        clientSecret: SecretValue.secretsManager(oidc.clientSecretName),
+        next,
+      });
+    }
+    const userPool = UserPool.fromUserPoolArn(
+      this,
+      "Dashboard User Pool",
+      cognito!.userPoolArn
+    );
+    return new AuthenticateCognitoAction({
+      userPool,
+      userPoolClient: UserPoolClient.fromUserPoolClientId(
+        this,
+        "Dashboard User Pool Client",
+        cognito!.userPoolClientId
+      ),
+      userPoolDomain: UserPoolDomain.fromDomainName(
+        this,
+        "Dashboard User Pool Domain",
+        cognito!.userPoolDomain
+      ),
+      next,
+    });
+  }
+
   /** OpenSearch
    *
    * OpenSearch will index the metadata of datasource we are connecting to from each region. We expose them
    * to the client region and worker regions over HTTPS only.
    *
    * @param workers - An array of the worker regions
+   * @param profile - The size and access model of the domain, see bin/opensearch.ts
    */
-  setupOpenSearch(workers: IWorker[]) {
+  setupOpenSearch(workers: IWorker[], profile: ResolvedOpenSearchProfile) {
     // The security group is restricted to only allow HTTPS connectivity to the index
     const openSearchSecurityGroup = new SecurityGroup(
       this,
@@ -345,18 +587,61 @@ export class ClientRegion extends Stack {
     const serviceLinkedRole = new CfnServiceLinkedRole(this, "OpenSearch SLR", {
       awsServiceName: "opensearchservice.amazonaws.com",
     });
+    // With fine-grained access control the security plugin signs its master user in with this password
+    const masterUser = profile.fineGrainedAccessControl
+      ? new Secret(this, "OpenSearch Master User", {
+          description:
+            "The master user of the OpenSearch domain's security plugin",
+          generateSecretString: {
+            secretStringTemplate: JSON.stringify({ username: "dask-admin" }),
+            generateStringKey: "password",
+            excludeCharacters: "{}'\\*[]()`\"",
+          },
+        })
+      : undefined;
+    const indexNames = workers.reduce(
+      (names: string[], worker) =>
+        names.concat(worker.datasets.map(({ indexName }) => indexName)),
+      []
+    );
+    // Dashboards is reached from within the VPC like the domain, once a user has signed in to Cognito
+    const dashboards =
+      profile.dashboards &&
+      new OpenSearchDashboards(this, "OpenSearch Dashboards", {
+        userPoolDomain: profile.dashboards.userPoolDomain,
+        vpc: this.vpc,
+        indexNames,
+        masterUser,
+      });
+    const warm = profile.warmNodes > 0;
     const openSearchDomain = new Domain(this, "OpenSearch Domain", {
-      version: EngineVersion.OPENSEARCH_1_3,
+      version: EngineVersion.openSearch(profile.engineVersion),
       removalPolicy: RemovalPolicy.DESTROY,
       enableVersionUpgrade: true,
       nodeToNodeEncryption: true,
       capacity: {
-        masterNodes: 3,
-        dataNodes: 2,
+        masterNodes: profile.masterNodes > 0 ? profile.masterNodes : undefined,
+        masterNodeInstanceType: profile.masterNodeInstanceType,
+        dataNodes: profile.dataNodes,
+        dataNodeInstanceType: profile.dataNodeInstanceType,
+        warmNodes: warm ? profile.warmNodes : undefined,
+        warmInstanceType: warm ? profile.warmNodeInstanceType : undefined,
+      },
+      ebs: {
+        volumeSize: profile.volumeSizeGiB,
       },
-      zoneAwareness: {
-        availabilityZoneCount: 2,
+      // A single availability zone domain sits in the first private subnet
+      zoneAwareness: profile.singleAz
+        ? { enabled: false }
+        : { availabilityZoneCount: 2 },
+      vpcSubnets: profile.singleAz
+        ? [{ subnets: [this.vpc.privateSubnets[0]] }]
+        : undefined,
+      fineGrainedAccessControl: masterUser && {
+        masterUserName: "dask-admin",
+        masterUserPassword: masterUser.secretValueFromJson("password"),
       },
+      cognitoDashboardsAuth: dashboards?.cognitoAuth,
       encryptionAtRest: {
         enabled: true,
       },
@@ -369,6 +654,27 @@ export class ClientRegion extends Stack {
       useUnsignedBasicAuth: false,
       securityGroups: [openSearchSecurityGroup],
     });
+    // Indexers in worker regions deployed to other accounts need the domain to allow their account
+    const accounts = trustedAccounts(this, workers);
+    if (accounts.length > 0) {
+      openSearchDomain.addAccessPolicies(
+        new PolicyStatement({
+          principals: accounts.map((account) => new AccountPrincipal(account)),
+          // The serverless indexer reads the index to find what has changed
+          actions: [
+            "es:ESHttpGet",
+            "es:ESHttpHead",
+            "es:ESHttpPut",
+            "es:ESHttpPost",
+            "es:ESHttpDelete",
+          ],
+          resources: [
+            openSearchDomain.domainArn,
+            `${openSearchDomain.domainArn}/*`,
+          ],
+        })
+      );
+    }
     openSearchDomain.node.addDependency(serviceLinkedRole);
 
     NagSuppressions.addResourceSuppressions(
@@ -392,12 +698,57 @@ export class ClientRegion extends Stack {
       true
     );
 
-    this.openSearchDomain = new StringParameter(this, "OpenSearch HostName", {
-      parameterName: `client-opensearch-domain-${this.region}`,
+    if (profile.singleAz) {
+      NagSuppressions.addResourceSuppressions(openSearchDomain, [
+        {
+          id: "AwsSolutions-OS4",
+          reason:
+            "A single availability zone domain is for development, where dedicated master nodes are optional",
+        },
+        {
+          id: "AwsSolutions-OS7",
+          reason:
+            "A single availability zone domain is for development, trading availability for cost",
+        },
+      ]);
+    }
+    if (masterUser) {
+      NagSuppressions.addResourceSuppressions(masterUser, [
+        {
+          id: "AwsSolutions-SMG4",
+          reason:
+            "The security plugin holds its own copy of the password, which rotating the secret wouldn't change",
+        },
+      ]);
+    }
+
+    // The client owns how every dataset is indexed, whichever region indexes it
+    this.openSearchSchema = new OpenSearchSchema(this, "OpenSearch Schema", {
+      domain: openSearchDomain,
+      vpc: this.vpc,
+      indexNames,
+      masterUser,
+      writerRoleArns: workers.map((worker) =>
+        indexerRoleArn(this, worker.account ?? this.account, worker.region)
+      ),
+    });
+    if (dashboards) {
+      dashboards.connect(openSearchDomain);
+      this.openSearchSchema.addDashboardsUser(dashboards.userRole);
+    }
+
+    this.openSearchDomain = new CrossRegionExport(this, "OpenSearch HostName", {
+      parameterName: deploymentName(
+        this,
+        `client-opensearch-domain-${this.region}`
+      ),
       stringValue: openSearchDomain.domainEndpoint,
     });
-    this.openSearchArn = new StringParameter(this, "OpenSearch ARN", {
-      parameterName: `client-opensearch-arn-${this.region}`,
+    this.openSearchArn = new CrossRegionExport(this, "OpenSearch ARN", {
+      parameterName: deploymentName(
+        this,
+        `client-opensearch-arn-${this.region}`
+      ),
       stringValue: openSearchDomain.domainArn,
     });
   }
@@ -406,10 +757,14 @@ export class ClientRegion extends Stack {
    *
    * The notebook acts as the interfacing body from the user to the scheduler. Below loads in the relevant
    * installations for the notebook to connect with the relevant permissions
+   *
+   * @param workers - An array of the worker regions, whose workers the notebook can lease
    */
-  setupSagemaker() {
+  setupSagemaker(workers: IWorker[]) {
     // The notebook requires access to not only access full access but specific access to the opensearch to post requests
     const role = new Role(this, "Sagemaker Role", {
+      // The worker regions let this role alone invoke their scaling api
+      roleName: notebookRoleName(this, this.region),
       assumedBy: new ServicePrincipal("sagemaker.amazonaws.com"),
       managedPolicies: [
         ManagedPolicy.fromAwsManagedPolicyName("AmazonSageMakerFullAccess"),
@@ -430,6 +785,42 @@ export class ClientRegion extends Stack {
       },
     });
     this.openSearchDomain.grantRead(role);
+    this.openSearchSchema.addReader(role);
+    this.daskTls?.secrets.client.grantRead(role);
+    // Each worker region's scaling api, which the notebook invokes to lease workers for a job. The
+    // notebook is given the function's name, or its arn when it's in another account
+    const workerScalingFunctions = workers.reduce<{ [region: string]: string }>(
+      (functions, worker) => ({
+        ...functions,
+        [worker.region]:
+          worker.account !== undefined && worker.account !== this.account
+            ? WorkerScalingApi.arnFor(this, worker.account, worker.region)
+            : WorkerScalingApi.functionNameFor(this, worker.region),
+      }),
+      {}
+    );
+    const workerScalingArns = workers.map((worker) =>
+      WorkerScalingApi.arnFor(
+        this,
+        worker.account ?? this.account,
+        worker.region
+      )
+    );
+    role.addToPolicy(
+      new PolicyStatement({
+        actions: ["lambda:InvokeFunction"],
+        resources: workerScalingArns,
+      })
+    );
+    // The apis are only invoked through the worker regions' Lambda endpoints, over the transit gateway
+    role.addToPolicy(
+      new PolicyStatement({
+        effect: Effect.DENY,
+        actions: ["lambda:InvokeFunction"],
+        resources: workerScalingArns,
+        conditions: { Null: { "aws:SourceVpce": "true" } },
+      })
+    );
 
     NagSuppressions.addResourceSuppressions(role, [
       {
@@ -453,11 +844,33 @@ export class ClientRegion extends Stack {
       this,
       "Life Cycle Config",
       {
-        notebookInstanceLifecycleConfigName: "LibraryforDaskNotebook",
+        notebookInstanceLifecycleConfigName: deploymentName(
+          this,
+          "LibraryforDaskNotebook"
+        ),
         onStart: [
           {
-            content: readFileSync(
-              path.join(__dirname, "..", "NotebookRequirements.txt")
+            content: Buffer.from(
+              readFileSync(
+                path.join(__dirname, "..", "NotebookRequirements.txt"),
+                { encoding: "utf8" }
+              ).replace(
+                "__DASK_DEPLOYMENT_CONFIG__",
+                JSON.stringify({
+                  scheduler: `${
+                    this.daskTls ? "tls://" : ""
+                  }Dask-Scheduler.${deploymentName(this, "local-dask")}:8786`,
+                  openSearchDomainParameter: deploymentName(
+                    this,
+                    `client-opensearch-domain-${this.region}`
+                  ),
+                  workerScalingFunctions,
+                  // With tls the notebook reads its certificate from this secret to connect
+                  ...(this.daskTls
+                    ? { tlsSecret: daskTlsSecretName(this, "client") }
+                    : {}),
+                })
+              )
             ).toString("base64"),
           },
         ],
@@ -466,7 +879,7 @@ export class ClientRegion extends Stack {
 
     // Preloaded code brought into the notebook at launch
     const repo = new Repository(this, "Sagemaker Code", {
-      repositoryName: "Sagemaker_Dask",
+      repositoryName: deploymentName(this, "Sagemaker_Dask"),
       code: Code.fromDirectory(path.join(__dirname, "..", "SagemakerCode")),
     });
     repo.grantRead(role);
@@ -493,7 +906,7 @@ export class ClientRegion extends Stack {
 
     // The Sagemaker Notebook
     new CfnNotebookInstance(this, "Dask Notebook", {
-      notebookInstanceName: "Dask-Notebook",
+      notebookInstanceName: deploymentName(this, "Dask-Notebook"),
       rootAccess: "Disabled",
       directInternetAccess: "Disabled",
       defaultCodeRepository: repo.repositoryCloneUrlHttp,
@@ -10,7 +10,9 @@ import {
 import { NagSuppressions } from "cdk-nag";
 import { IWorker } from "../../bin/interface";
 import { TransitGatewayRouteTable } from "../SdkConstructs/default-transit-route-table-id";
-import { SSMParameterReader } from "../SdkConstructs/ssm-param-reader";
+import { CrossRegionImport } from "../SdkConstructs/cross-region-reference";
+import { crossAccountRoleArn } from "../SdkConstructs/cross-account-role";
+import { deploymentName } from "../deployment-name";
 
 export interface ClientRegionProps extends StackProps {
   clientTgw: CfnTransitGateway;
@@ -64,15 +66,18 @@ export class ClientToWorkerTransitGatewayRoute extends Stack {
       true
     );
 
-    const transitGatewayAttachmentId = new SSMParameterReader(
+    const transitGatewayAttachmentId = new CrossRegionImport(
       this,
       `Transit Attachment ID - ${worker.region}`,
       {
-        parameterName: `tgw-attachmentid-${worker.region}`,
+        parameterName: deploymentName(
+          this,
+          `tgw-attachmentid-${worker.region}`
+        ),
         region: worker.region,
-        account: this.account,
+        assumedRoleArn: crossAccountRoleArn(this, worker),
       }
-    ).getParameterValue();
+    ).value;
 
     // Append the route
     new CfnTransitGatewayRoute(this, `TGW Route - ${worker.region}`, {
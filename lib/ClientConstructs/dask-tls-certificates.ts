@@ -0,0 +1,161 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+import { CustomResource, Duration, Stack } from "aws-cdk-lib";
+import { Platform } from "aws-cdk-lib/aws-ecr-assets";
+import { AccountPrincipal, PolicyStatement } from "aws-cdk-lib/aws-iam";
+import { Key } from "aws-cdk-lib/aws-kms";
+import { DockerImageCode, DockerImageFunction } from "aws-cdk-lib/aws-lambda";
+import { Secret } from "aws-cdk-lib/aws-secretsmanager";
+import { Provider } from "aws-cdk-lib/custom-resources";
+import { NagSuppressions } from "cdk-nag";
+import { Construct } from "constructs";
+import { CrossRegionExport } from "../SdkConstructs/cross-region-reference";
+import {
+  DaskTlsRole,
+  daskTlsSecretName,
+  workerTlsParameterName,
+} from "../dask-tls";
+import { deploymentName } from "../deployment-name";
+import path = require("path");
+
+// Certificates are reissued this often, well within how long each one lasts
+const ROTATION_DAYS = 30;
+const CERTIFICATE_DAYS = 365;
+
+interface DaskTlsCertificatesProps {
+  // The name the scheduler registers in the private namespace
+  schedulerHost: string;
+  // The accounts of worker regions deployed elsewhere, which read the workers' certificate
+  workerAccounts: string[];
+}
+
+/**
+ * The CA and the certificates of each role that runs dask over tls://, each held in Secrets Manager.
+ * The CA is created with the stack and only read by the function that issues the certificates, which
+ * Secrets Manager calls on a schedule to rotate them. Tasks read their certificate when they start
+ */
+export class DaskTlsCertificates extends Construct {
+  readonly secrets: { [role in DaskTlsRole]: Secret };
+
+  constructor(scope: Construct, name: string, props: DaskTlsCertificatesProps) {
+    super(scope, name);
+    const { schedulerHost, workerAccounts } = props;
+    const { region } = Stack.of(this);
+
+    // Worker regions in other accounts can only decrypt their certificate under a customer managed key
+    const key = new Key(this, "Dask TLS Key", {
+      enableKeyRotation: true,
+    });
+    const authority = new Secret(this, "Dask TLS Authority", {
+      secretName: deploymentName(this, "dask-tls-ca"),
+      description: "The CA which signs the dask tls certificates",
+      encryptionKey: key,
+    });
+    const roleSecret = (role: DaskTlsRole) =>
+      new Secret(this, `Dask TLS ${role}`, {
+        secretName: daskTlsSecretName(this, role),
+        description: `The dask ${role}'s tls certificate and key, along with the CA certificate`,
+        encryptionKey: key,
+      });
+    this.secrets = {
+      scheduler: roleSecret("scheduler"),
+      worker: roleSecret("worker"),
+      client: roleSecret("client"),
+    };
+    const roles = Object.keys(this.secrets) as DaskTlsRole[];
+
+    const fn = new DockerImageFunction(this, "Dask TLS Function", {
+      code: DockerImageCode.fromImageAsset(
+        path.join(__dirname, "..", "DaskTlsRotation"),
+        { platform: Platform.LINUX_AMD64 }
+      ),
+      timeout: Duration.minutes(1),
+      environment: {
+        AuthoritySecret: authority.secretArn,
+        RoleSecrets: Stack.of(this).toJsonString(
+          roles.reduce(
+            (arns, role) => ({ ...arns, [role]: this.secrets[role].secretArn }),
+            {}
+          )
+        ),
+        SchedulerHost: schedulerHost,
+        CertificateDays: `${CERTIFICATE_DAYS}`,
+      },
+    });
+    authority.grantRead(fn);
+    authority.grantWrite(fn);
+
+    // The CA and first certificates are issued as the stack is deployed, so tasks can start with them
+    const provider = new Provider(this, "Dask TLS Provider", {
+      onEventHandler: fn,
+    });
+    const issue = new CustomResource(this, "Dask TLS Issue", {
+      serviceToken: provider.serviceToken,
+      properties: { SchedulerHost: schedulerHost },
+    });
+    for (const role of roles) {
+      this.secrets[role].grantWrite(fn);
+      this.secrets[role]
+        .addRotationSchedule("Rotation", {
+          rotationLambda: fn,
+          automaticallyAfter: Duration.days(ROTATION_DAYS),
+          rotateImmediatelyOnUpdate: false,
+        })
+        .node.addDependency(issue);
+    }
+
+    // Worker regions look up their certificate's secret through this parameter
+    new CrossRegionExport(this, "Dask TLS Worker Param", {
+      parameterName: workerTlsParameterName(this, region),
+      stringValue: this.secrets.worker.secretArn,
+    });
+    if (workerAccounts.length > 0) {
+      const principals = workerAccounts.map(
+        (account) => new AccountPrincipal(account)
+      );
+      this.secrets.worker.addToResourcePolicy(
+        new PolicyStatement({
+          principals,
+          actions: ["secretsmanager:GetSecretValue"],
+          resources: ["*"],
+        })
+      );
+      key.addToResourcePolicy(
+        new PolicyStatement({
+          principals,
+          actions: ["kms:Decrypt"],
+          resources: ["*"],
+          conditions: {
+            StringEquals: {
+              "kms:ViaService": `secretsmanager.${region}.amazonaws.com`,
+            },
+          },
+        })
+      );
+    }
+
+    NagSuppressions.addResourceSuppressions(
+      authority,
+      [
+        {
+          id: "AwsSolutions-SMG4",
+          reason:
+            "The CA lasts ten years, the certificates it signs are the ones rotated",
+        },
+      ],
+      true
+    );
+    NagSuppressions.addResourceSuppressions(
+      [fn, provider],
+      [
+        {
+          id: "AwsSolutions-IAM5",
+          reason:
+            "Rotation needs a random password from Secrets Manager, which has no resource, and the provider invokes every version of the function",
+        },
+      ],
+      true
+    );
+  }
+}
@@ -0,0 +1,196 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+import { CustomResource, Duration, RemovalPolicy } from "aws-cdk-lib";
+import {
+  CfnIdentityPool,
+  CfnIdentityPoolRoleAttachment,
+  Mfa,
+  UserPool,
+} from "aws-cdk-lib/aws-cognito";
+import { IVpc, SecurityGroup } from "aws-cdk-lib/aws-ec2";
+import { Platform } from "aws-cdk-lib/aws-ecr-assets";
+import {
+  FederatedPrincipal,
+  ManagedPolicy,
+  PolicyStatement,
+  Role,
+  ServicePrincipal,
+} from "aws-cdk-lib/aws-iam";
+import { DockerImageCode, DockerImageFunction } from "aws-cdk-lib/aws-lambda";
+import { CognitoOptions, Domain } from "aws-cdk-lib/aws-opensearchservice";
+import { ISecret } from "aws-cdk-lib/aws-secretsmanager";
+import { Provider } from "aws-cdk-lib/custom-resources";
+import { NagSuppressions } from "cdk-nag";
+import { Construct } from "constructs";
+import path = require("path");
+
+interface OpenSearchDashboardsProps {
+  // The prefix of the Cognito domain users sign in on
+  userPoolDomain: string;
+  vpc: IVpc;
+  // The index name of every dataset, which the index pattern covers
+  indexNames: string[];
+  // Set when the domain has fine-grained access control, the saved objects are imported as its master user
+  masterUser?: ISecret;
+}
+
+/**
+ * Signs analysts in to OpenSearch Dashboards through a Cognito user pool, whose users take on the
+ * identity pool's authenticated role. OpenSearch Service adds its own app client to the pools once
+ * the domain is given the cognito options, and the saved objects analysts start from are imported
+ * once the domain is connected
+ */
+export class OpenSearchDashboards extends Construct {
+  readonly cognitoAuth: CognitoOptions;
+  // The role every signed in user takes on
+  readonly userRole: Role;
+  private readonly props: OpenSearchDashboardsProps;
+
+  constructor(
+    scope: Construct,
+    name: string,
+    props: OpenSearchDashboardsProps
+  ) {
+    super(scope, name);
+    this.props = props;
+    const { userPoolDomain } = props;
+
+    // Users are added by an administrator, and sign in with a one time password as well
+    const userPool = new UserPool(this, "OpenSearch Dashboards Users", {
+      selfSignUpEnabled: false,
+      signInAliases: { username: true, email: true },
+      mfa: Mfa.REQUIRED,
+      mfaSecondFactor: { otp: true, sms: false },
+      passwordPolicy: {
+        minLength: 12,
+        requireDigits: true,
+        requireLowercase: true,
+        requireUppercase: true,
+        requireSymbols: true,
+      },
+      removalPolicy: RemovalPolicy.DESTROY,
+    });
+    userPool.addDomain("OpenSearch Dashboards Sign In", {
+      cognitoDomain: { domainPrefix: userPoolDomain },
+    });
+    // OpenSearch Service adds its app client to the identity pool, which a later change to the pool's
+    // providers here would remove
+    const identityPool = new CfnIdentityPool(
+      this,
+      "OpenSearch Dashboards Identities",
+      { allowUnauthenticatedIdentities: false }
+    );
+    this.userRole = new Role(this, "OpenSearch Dashboards User Role", {
+      assumedBy: new FederatedPrincipal(
+        "cognito-identity.amazonaws.com",
+        {
+          StringEquals: {
+            "cognito-identity.amazonaws.com:aud": identityPool.ref,
+          },
+          "ForAnyValue:StringLike": {
+            "cognito-identity.amazonaws.com:amr": "authenticated",
+          },
+        },
+        "sts:AssumeRoleWithWebIdentity"
+      ),
+    });
+    new CfnIdentityPoolRoleAttachment(this, "OpenSearch Dashboards Roles", {
+      identityPoolId: identityPool.ref,
+      roles: { authenticated: this.userRole.roleArn },
+    });
+
+    // OpenSearch Service configures the user pool and identity pool through this role
+    const cognitoRole = new Role(this, "OpenSearch Dashboards Cognito Role", {
+      assumedBy: new ServicePrincipal("opensearchservice.amazonaws.com"),
+      managedPolicies: [
+        ManagedPolicy.fromAwsManagedPolicyName(
+          "AmazonOpenSearchServiceCognitoAccess"
+        ),
+      ],
+    });
+    this.cognitoAuth = {
+      identityPoolId: identityPool.ref,
+      userPoolId: userPool.userPoolId,
+      role: cognitoRole,
+    };
+
+    NagSuppressions.addResourceSuppressions(userPool, [
+      {
+        id: "AwsSolutions-COG3",
+        reason:
+          "Users are only added by an administrator and need a one time password, advanced security is left as an opt-in cost",
+      },
+    ]);
+    NagSuppressions.addResourceSuppressions(cognitoRole, [
+      {
+        id: "AwsSolutions-IAM4",
+        reason:
+          "OpenSearch Service configures the Cognito pools with the managed policy made for it",
+      },
+    ]);
+  }
+
+  /**
+   * Lets signed in users reach the domain and imports the index pattern and visualization they
+   * start from into its Dashboards
+   *
+   * @param domain - The domain created with the cognito options
+   */
+  connect(domain: Domain) {
+    const { vpc, indexNames, masterUser } = this.props;
+    domain.addAccessPolicies(
+      new PolicyStatement({
+        principals: [this.userRole],
+        actions: ["es:ESHttp*"],
+        resources: [`${domain.domainArn}/*`],
+      })
+    );
+
+    const fn = new DockerImageFunction(this, "Saved Objects Function", {
+      code: DockerImageCode.fromImageAsset(
+        path.join(__dirname, "..", "OpenSearchDashboards"),
+        { platform: Platform.LINUX_AMD64 }
+      ),
+      vpc,
+      securityGroups: [
+        new SecurityGroup(this, "Saved Objects Security Group", { vpc }),
+      ],
+      timeout: Duration.minutes(2),
+      environment: {
+        OpenSearchHost: domain.domainEndpoint,
+        ...(masterUser && { MasterUserSecret: masterUser.secretArn }),
+      },
+    });
+    domain.grantReadWrite(fn);
+    masterUser?.grantRead(fn);
+    const provider = new Provider(this, "Saved Objects Provider", {
+      onEventHandler: fn,
+    });
+    new CustomResource(this, "Saved Objects", {
+      serviceToken: provider.serviceToken,
+      resourceType: "Custom::OpenSearchSavedObjects",
+      properties: { Datasets: indexNames },
+    });
+
+    NagSuppressions.addResourceSuppressions(
+      [fn, provider],
+      [
+        {
+          id: "AwsSolutions-IAM4",
+          reason:
+            "The managed policy lets the function create its network interfaces in the client VPC",
+          appliesTo: [
+            "Policy::arn:<AWS::Partition>:iam::aws:policy/service-role/AWSLambdaVPCAccessExecutionRole",
+          ],
+        },
+        {
+          id: "AwsSolutions-IAM5",
+          reason:
+            "The Dashboards api sits under the domain's paths, and the provider invokes every version of the function",
+        },
+      ],
+      true
+    );
+  }
+}
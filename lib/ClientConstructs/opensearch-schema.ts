@@ -0,0 +1,165 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+import { CustomResource, Duration, Lazy } from "aws-cdk-lib";
+import { IVpc, SecurityGroup } from "aws-cdk-lib/aws-ec2";
+import { Platform } from "aws-cdk-lib/aws-ecr-assets";
+import { IRole } from "aws-cdk-lib/aws-iam";
+import { DockerImageCode, DockerImageFunction } from "aws-cdk-lib/aws-lambda";
+import { IDomain } from "aws-cdk-lib/aws-opensearchservice";
+import { ISecret } from "aws-cdk-lib/aws-secretsmanager";
+import { Provider } from "aws-cdk-lib/custom-resources";
+import { NagSuppressions } from "cdk-nag";
+import { Construct } from "constructs";
+import path = require("path");
+
+// Bump whenever the mappings change, so every dataset is reindexed into an index of the new version
+const SCHEMA_VERSION = 1;
+// How long a version replaced by a newer one is kept once it was created, before ISM deletes it. The
+// live versions have no ISM policy, as the indexers remove the entries of files that are gone
+const RETIRED_INDEX_DAYS = 7;
+
+// The fields written by both indexers. The serverless indexer sorts on key, so it must stay a keyword
+const mappings = {
+  properties: {
+    fileName: { type: "keyword" },
+    bucket: { type: "keyword" },
+    region: { type: "keyword" },
+    dask_pool: { type: "keyword" },
+    project: { type: "keyword" },
+    key: { type: "keyword" },
+    etag: { type: "keyword" },
+    size: { type: "long" },
+    lastModified: { type: "date" },
+  },
+};
+
+interface OpenSearchSchemaProps {
+  domain: IDomain;
+  vpc: IVpc;
+  // The index name of every dataset, which becomes the alias it's read and written through
+  indexNames: string[];
+  // Set when the domain has fine-grained access control, the functions sign in as its master user
+  masterUser?: ISecret;
+  // The roles the indexers write with, mapped to the writer role of the security plugin
+  writerRoleArns?: string[];
+}
+
+/**
+ * The index template, aliases and ISM policy of the dataset indexes, installed as the stack deploys.
+ * Changing the schema reindexes each dataset into a new version behind its alias, keeping the
+ * entries already indexed, so the stack update only completes once every alias has been swapped.
+ * With fine-grained access control it also maps the readers and writers in the security plugin
+ */
+export class OpenSearchSchema extends Construct {
+  private readonly readerRoleArns: string[] = [];
+  private readonly dashboardsRoleArns: string[] = [];
+
+  constructor(scope: Construct, name: string, props: OpenSearchSchemaProps) {
+    super(scope, name);
+    const { domain, vpc, indexNames, masterUser, writerRoleArns = [] } = props;
+
+    const securityGroup = new SecurityGroup(
+      this,
+      "OpenSearch Schema Security Group",
+      { vpc }
+    );
+    const fn = (id: string, cmd: string) =>
+      new DockerImageFunction(this, id, {
+        code: DockerImageCode.fromImageAsset(
+          path.join(__dirname, "..", "OpenSearchSchema"),
+          { platform: Platform.LINUX_AMD64, cmd: [cmd] }
+        ),
+        vpc,
+        securityGroups: [securityGroup],
+        timeout: Duration.minutes(1),
+        environment: {
+          OpenSearchHost: domain.domainEndpoint,
+          ...(masterUser && { MasterUserSecret: masterUser.secretArn }),
+        },
+      });
+    const onEvent = fn("OpenSearch Schema Function", "index.on_event");
+    const isComplete = fn("OpenSearch Schema Waiter", "index.is_complete");
+    domain.grantReadWrite(onEvent);
+    domain.grantReadWrite(isComplete);
+    masterUser?.grantRead(onEvent);
+    masterUser?.grantRead(isComplete);
+
+    // Reindexing a large dataset can take a while, the waiter swaps each alias as its copy finishes
+    const provider = new Provider(this, "OpenSearch Schema Provider", {
+      onEventHandler: onEvent,
+      isCompleteHandler: isComplete,
+      queryInterval: Duration.minutes(1),
+      totalTimeout: Duration.hours(2),
+    });
+    new CustomResource(this, "OpenSearch Schema", {
+      serviceToken: provider.serviceToken,
+      resourceType: "Custom::OpenSearchSchema",
+      properties: {
+        SchemaVersion: `${SCHEMA_VERSION}`,
+        Mappings: JSON.stringify(mappings),
+        Datasets: indexNames,
+        RetiredIndexDays: `${RETIRED_INDEX_DAYS}`,
+        ...(masterUser && {
+          ReaderRoles: Lazy.list({ produce: () => this.readerRoleArns }),
+          WriterRoles: writerRoleArns,
+          DashboardsRoles: Lazy.list(
+            { produce: () => this.dashboardsRoleArns },
+            { omitEmpty: true }
+          ),
+        }),
+      },
+    });
+
+    NagSuppressions.addResourceSuppressions(
+      [onEvent, isComplete, provider],
+      [
+        {
+          id: "AwsSolutions-IAM4",
+          reason:
+            "The managed policy lets the functions create their network interfaces in the client VPC",
+          appliesTo: [
+            "Policy::arn:<AWS::Partition>:iam::aws:policy/service-role/AWSLambdaVPCAccessExecutionRole",
+          ],
+        },
+        {
+          id: "AwsSolutions-IAM5",
+          reason:
+            "The functions manage templates, policies and indexes across the domain, and the provider invokes every version of the functions",
+        },
+        {
+          id: "AwsSolutions-SF1",
+          reason:
+            "The provider's waiter only polls the reindex tasks, its history is kept by the functions' logs",
+        },
+        {
+          id: "AwsSolutions-SF2",
+          reason:
+            "The provider's waiter only polls the reindex tasks, its history is kept by the functions' logs",
+        },
+      ],
+      true
+    );
+  }
+
+  /**
+   * Lets the role search the dataset indexes when the domain has fine-grained access control, the
+   * role still needs the IAM actions to reach the domain
+   *
+   * @param role - The role mapped to the read only role of the security plugin
+   */
+  addReader(role: IRole) {
+    this.readerRoleArns.push(role.roleArn);
+  }
+
+  /**
+   * Lets the role search the dataset indexes and use Dashboards when the domain has fine-grained
+   * access control
+   *
+   * @param role - The role mapped to the read only and Dashboards user roles of the security plugin
+   */
+  addDashboardsUser(role: IRole) {
+    this.addReader(role);
+    this.dashboardsRoleArns.push(role.roleArn);
+  }
+}
@@ -0,0 +1,216 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+import { Duration, Stack } from "aws-cdk-lib";
+import {
+  Dashboard,
+  GraphWidget,
+  IWidget,
+  MathExpression,
+  Metric,
+  SingleValueWidget,
+  TextWidget,
+} from "aws-cdk-lib/aws-cloudwatch";
+import { FargateService } from "aws-cdk-lib/aws-ecs";
+import { Construct } from "constructs";
+import { IWorker } from "../../bin/interface";
+import { LustreImportPipeline } from "../WorkerConstructs/lustre-import-pipeline";
+import { deploymentName } from "../deployment-name";
+import { poolMetric } from "../pool-metrics";
+
+interface OperationsDashboardProps {
+  workers: IWorker[];
+  schedulerService: FargateService;
+  // The client's transit gateway, which every worker region is peered with
+  transitGatewayId: string;
+}
+
+/**
+ * A CloudWatch dashboard in the client region charting the whole deployment: the scheduler, the
+ * transit gateway traffic to each worker region, and for every worker region its pool, tasks,
+ * instance capacity, lustre file system and last OpenSearch sync. Each worker region's metrics are
+ * read from that region, and from its account when it's in another one
+ */
+export class OperationsDashboard extends Construct {
+  constructor(scope: Construct, name: string, props: OperationsDashboardProps) {
+    super(scope, name);
+    const { workers, schedulerService, transitGatewayId } = props;
+    const { region } = Stack.of(this);
+
+    const dashboard = new Dashboard(this, "Dashboard", {
+      dashboardName: deploymentName(this, "Dask-Operations"),
+    });
+    dashboard.addWidgets(
+      new TextWidget({
+        markdown: `# Dask\nThe scheduler runs in ${region}, with workers in ${workers
+          .map((worker) => worker.region)
+          .join(", ")}`,
+        width: 24,
+        height: 2,
+      })
+    );
+    dashboard.addWidgets(
+      new GraphWidget({
+        title: "Scheduler CPU and memory",
+        left: [
+          schedulerService.metricCpuUtilization(),
+          schedulerService.metricMemoryUtilization(),
+        ],
+        leftYAxis: { min: 0, max: 100 },
+        width: 12,
+      }),
+      // Every attachment of the client's transit gateway, which are the VPC and a peering per region
+      new GraphWidget({
+        title: "Transit gateway bytes per attachment",
+        left: [
+          new MathExpression({
+            expression: `SEARCH('{AWS/TransitGateway,TransitGateway,TransitGatewayAttachment} TransitGateway="${transitGatewayId}" (MetricName="BytesIn" OR MetricName="BytesOut")', 'Sum', 300)`,
+            usingMetrics: {},
+            label: "",
+          }),
+        ],
+        width: 12,
+      })
+    );
+    for (const worker of workers) {
+      dashboard.addWidgets(...this.workerWidgets(worker));
+    }
+  }
+
+  /**
+   * The row of a worker region. Lustre metrics can only be found by their file system id, which the
+   * client doesn't know, so they're searched for across the region
+   *
+   * @param worker - Object of the worker containing pieces such as worker region, cidr and data
+   */
+  private workerWidgets(worker: IWorker): IWidget[] {
+    const { region, account } = worker;
+    const inRegion = { region, account };
+    const containerInsights = (
+      metricName: string,
+      dimensionsMap: Record<string, string>
+    ) =>
+      new Metric({
+        namespace: "ECS/ContainerInsights",
+        metricName,
+        dimensionsMap,
+        statistic: "Average",
+        ...inRegion,
+      });
+    const search = (metric: string, statistic: string, label: string) =>
+      new MathExpression({
+        expression: `SEARCH('{AWS/FSx,FileSystemId} MetricName="${metric}"', '${statistic}', 300)`,
+        usingMetrics: {},
+        label,
+        searchRegion: region,
+        searchAccount: account,
+      });
+    // The worker groups are named by CloudFormation after the stack they're in, which is all the
+    // client knows of them, see lib/WorkerConstructs/worker-region-stack.ts
+    const workerStackName = deploymentName(this, `Worker-Region-${region}`);
+    const groupCapacity = (metric: string, label: string) =>
+      new MathExpression({
+        expression: `SEARCH('{AWS/AutoScaling,AutoScalingGroupName} MetricName="${metric}" "${workerStackName}"', 'Average', 300)`,
+        usingMetrics: {},
+        label,
+        searchRegion: region,
+        searchAccount: account,
+      });
+    // The names the worker region gives its cluster and service, see lib/WorkerConstructs/worker-region-stack.ts
+    const clusterName = deploymentName(this, "Dask-Workers");
+    const serviceName = deploymentName(this, "Dask-Workers-ecs");
+    const pipeline = (metricName: string) =>
+      new Metric({
+        namespace: "AWS/States",
+        metricName,
+        dimensionsMap: {
+          StateMachineArn: LustreImportPipeline.arnFor(
+            this,
+            account ?? Stack.of(this).account,
+            region
+          ),
+        },
+        statistic: "Maximum",
+        period: Duration.days(1),
+        ...inRegion,
+      });
+    // Whether the last day's runs succeeded or failed, counting runs that timed out or were aborted
+    // as failed like the pipeline's alarm does. Days without a run show as neither
+    const lastSync = (expression: string, label: string) =>
+      new MathExpression({
+        expression,
+        usingMetrics: {
+          succeeded: pipeline("ExecutionsSucceeded"),
+          failed: pipeline("ExecutionsFailed"),
+          timedOut: pipeline("ExecutionsTimedOut"),
+          aborted: pipeline("ExecutionsAborted"),
+        },
+        label,
+        period: Duration.days(1),
+      });
+
+    return [
+      new TextWidget({
+        markdown: `## Workers in ${region}`,
+        width: 24,
+        height: 1,
+      }),
+      new GraphWidget({
+        title: `Dask tasks in ${region}`,
+        left: [
+          poolMetric(this, region, "QueuedTasks").with(inRegion),
+          poolMetric(this, region, "ProcessingTasks").with(inRegion),
+        ],
+        right: [poolMetric(this, region, "Workers").with(inRegion)],
+        width: 5,
+      }),
+      // Fargate workers have no instances of their own
+      new GraphWidget({
+        title: `Worker tasks and instances in ${region}`,
+        left: [
+          containerInsights("RunningTaskCount", {
+            ClusterName: clusterName,
+            ServiceName: serviceName,
+          }).with({ label: "Running tasks" }),
+        ],
+        right:
+          worker.workerLaunchType === "FARGATE"
+            ? []
+            : [
+                groupCapacity("GroupDesiredCapacity", "Desired instances"),
+                groupCapacity(
+                  "GroupInServiceInstances",
+                  "In service instances"
+                ),
+              ],
+        width: 5,
+      }),
+      new GraphWidget({
+        title: `Lustre throughput in ${region}`,
+        left: [
+          search("DataReadBytes", "Sum", "Read bytes"),
+          search("DataWriteBytes", "Sum", "Written bytes"),
+        ],
+        width: 5,
+      }),
+      new GraphWidget({
+        title: `Lustre free capacity in ${region}`,
+        left: [search("FreeDataStorageCapacity", "Minimum", "Free bytes")],
+        width: 5,
+      }),
+      new SingleValueWidget({
+        title: `Last OpenSearch sync in ${region}`,
+        // The expressions are worked out where their metrics are
+        region,
+        metrics: [
+          lastSync("FILL(succeeded, 0)", "Succeeded"),
+          lastSync(
+            "FILL(failed, 0) + FILL(timedOut, 0) + FILL(aborted, 0)",
+            "Failed"
+          ),
+        ],
+        width: 4,
+      }),
+    ];
+  }
+}
@@ -0,0 +1,124 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+import {
+  AddTagsToResourceCommand,
+  GetParameterCommand,
+  ListTagsForResourceCommand,
+  RemoveTagsFromResourceCommand,
+  SSMClient,
+} from "@aws-sdk/client-ssm";
+import { AssumeRoleCommand, STSClient } from "@aws-sdk/client-sts";
+
+// Each import tags the parameter it reads with a key of its own, so the exporting side can list them
+const IMPORT_TAG_PREFIX = "dask-import:";
+
+// Reads the parameter in its region, through the role in its account when it sits in another one
+const ssmFor = async ({ Region, RoleArn }) => {
+  if (!RoleArn) return new SSMClient({ region: Region });
+  const { Credentials } = await new STSClient({ region: Region }).send(
+    new AssumeRoleCommand({
+      RoleArn,
+      RoleSessionName: "dask-cross-region-import",
+    })
+  );
+  return new SSMClient({
+    region: Region,
+    credentials: {
+      accessKeyId: Credentials.AccessKeyId,
+      secretAccessKey: Credentials.SecretAccessKey,
+      sessionToken: Credentials.SessionToken,
+    },
+  });
+};
+
+const importers = async (ssm, name) => {
+  const { TagList } = await ssm.send(
+    new ListTagsForResourceCommand({
+      ResourceType: "Parameter",
+      ResourceId: name,
+    })
+  );
+  return TagList.filter(({ Key }) => Key.startsWith(IMPORT_TAG_PREFIX));
+};
+
+// The export's parameter is deployed alongside it, this only stops it going while it is imported
+const onExport = async ({
+  RequestType,
+  ResourceProperties,
+  OldResourceProperties,
+}) => {
+  const { ParameterName } = ResourceProperties;
+  const released =
+    RequestType === "Delete"
+      ? ParameterName
+      : RequestType === "Update" &&
+        OldResourceProperties.ParameterName !== ParameterName
+      ? OldResourceProperties.ParameterName
+      : undefined;
+  if (released) {
+    const imports = await importers(new SSMClient(), released);
+    if (imports.length > 0) {
+      throw new Error(
+        `${released} is still imported by ${imports
+          .map(({ Value }) => Value)
+          .join(", ")}, remove those imports first`
+      );
+    }
+  }
+  return { PhysicalResourceId: ParameterName };
+};
+
+const onImport = async ({ RequestType, ResourceProperties }) => {
+  const { ParameterName, ImportId, ImportedBy } = ResourceProperties;
+  const ssm = await ssmFor(ResourceProperties);
+  const Key = `${IMPORT_TAG_PREFIX}${ImportId}`;
+
+  if (RequestType === "Delete") {
+    try {
+      await ssm.send(
+        new RemoveTagsFromResourceCommand({
+          ResourceType: "Parameter",
+          ResourceId: ParameterName,
+          TagKeys: [Key],
+        })
+      );
+    } catch (error) {
+      // The parameter may already be gone, in which case there is nothing to release
+      if (error.name !== "InvalidResourceId") throw error;
+    }
+    return { PhysicalResourceId: ParameterName };
+  }
+
+  const { Parameter } = await ssm.send(
+    new GetParameterCommand({ Name: ParameterName })
+  );
+  // The tag records which stack reads the parameter and the version it last read
+  await ssm.send(
+    new AddTagsToResourceCommand({
+      ResourceType: "Parameter",
+      ResourceId: ParameterName,
+      Tags: [
+        {
+          Key,
+          Value: `${ImportedBy}/v${Parameter.Version}`,
+        },
+      ],
+    })
+  );
+  return {
+    PhysicalResourceId: ParameterName,
+    Data: { Value: Parameter.Value, Version: `${Parameter.Version}` },
+  };
+};
+
+export const handler = async (event) => {
+  switch (event.ResourceType) {
+    case "Custom::CrossRegionExport":
+      return onExport(event);
+    case "Custom::CrossRegionImport":
+      return onImport(event);
+    default:
+      throw new Error(`Unknown resource type ${event.ResourceType}`);
+  }
+};
@@ -0,0 +1,99 @@
+#  Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+#  SPDX-License-Identifier: MIT-0
+
+# Loaded into the scheduler with --preload, this publishes every minute how much work is waiting on
+# each worker pool. The metrics go to CloudWatch in the pool's own region, where the worker service
+# scales on them
+
+import asyncio
+import json
+import os
+from datetime import datetime, timedelta, timezone
+
+import boto3
+from tornado.ioloop import PeriodicCallback
+
+INTERVAL_MS = 60 * 1000
+NAMESPACE = os.environ['DASK_METRICS_NAMESPACE']
+# Each worker region, mapped to the role to publish through when it is in another account
+POOL_ROLES = json.loads(os.environ['DASK_POOL_REGIONS'])
+# Tasks in these states are held by the scheduler until a worker with the pool's resource frees up
+QUEUED_STATES = {'released', 'waiting', 'queued', 'no-worker'}
+
+
+class PoolMetrics:
+    def __init__(self, scheduler):
+        self.scheduler = scheduler
+        self.clients = {}
+
+    def cloudwatch(self, region):
+        client, expires = self.clients.get(region, (None, None))
+        if client is not None and (expires is None or expires > datetime.now(timezone.utc)):
+            return client
+        role = POOL_ROLES[region]
+        if role:
+            credentials = boto3.client('sts').assume_role(
+                RoleArn=role, RoleSessionName='dask-pool-metrics'
+            )['Credentials']
+            client = boto3.client(
+                'cloudwatch',
+                region_name=region,
+                aws_access_key_id=credentials['AccessKeyId'],
+                aws_secret_access_key=credentials['SecretAccessKey'],
+                aws_session_token=credentials['SessionToken'],
+            )
+            # Assume the role again a little before the credentials run out
+            expires = credentials['Expiration'] - timedelta(minutes=5)
+        else:
+            client = boto3.client('cloudwatch', region_name=region)
+            expires = None
+        self.clients[region] = (client, expires)
+        return client
+
+    def count(self):
+        counts = {
+            region: {'QueuedTasks': 0, 'ProcessingTasks': 0, 'Workers': 0}
+            for region in POOL_ROLES
+        }
+        for ts in self.scheduler.tasks.values():
+            for resource in ts.resource_restrictions or {}:
+                pool = counts.get(resource[len('pool-'):]) if resource.startswith('pool-') else None
+                if pool is None:
+                    continue
+                if ts.state == 'processing':
+                    pool['ProcessingTasks'] += 1
+                elif ts.state in QUEUED_STATES:
+                    pool['QueuedTasks'] += 1
+        for ws in self.scheduler.workers.values():
+            for resource in ws.resources:
+                pool = counts.get(resource[len('pool-'):]) if resource.startswith('pool-') else None
+                if pool is not None:
+                    pool['Workers'] += 1
+        return counts
+
+    def put(self, region, values):
+        self.cloudwatch(region).put_metric_data(
+            Namespace=NAMESPACE,
+            MetricData=[
+                {
+                    'MetricName': name,
+                    'Dimensions': [{'Name': 'Pool', 'Value': 'pool-' + region}],
+                    'Value': value,
+                    'Unit': 'Count',
+                }
+                for name, value in values.items()
+            ],
+        )
+
+    async def publish(self):
+        # Counted on the event loop, which owns the scheduler's state, and published off it
+        loop = asyncio.get_running_loop()
+        for region, values in self.count().items():
+            try:
+                await loop.run_in_executor(None, self.put, region, values)
+            except Exception as error:
+                print('Failed to publish metrics for pool-' + region + ': ' + str(error))
+
+
+def dask_setup(scheduler):
+    PeriodicCallback(PoolMetrics(scheduler).publish, INTERVAL_MS).start()
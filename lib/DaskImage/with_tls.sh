@@ -0,0 +1,9 @@
+#!/bin/sh
+# Writes the certificates ECS injects from Secrets Manager to the files the --tls-* options point to,
+# then runs the dask command it was given
+set -e
+mkdir -p /tmp/dask-tls
+printf '%s\n' "$DASK_TLS_CA" > /tmp/dask-tls/ca.pem
+printf '%s\n' "$DASK_TLS_CERT" > /tmp/dask-tls/cert.pem
+(umask 077 && printf '%s\n' "$DASK_TLS_KEY" > /tmp/dask-tls/key.pem)
+exec "$@"
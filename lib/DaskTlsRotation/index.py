@@ -0,0 +1,189 @@
+#  Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+#  SPDX-License-Identifier: MIT-0
+
+# Issues the certificates the scheduler, workers and notebook use to talk to each other over tls://
+# The CA is created once when the stack is deployed and kept in its own secret, while each role's
+# certificate lives in a secret of its own that Secrets Manager rotates on a schedule through the
+# same function. Every role's secret holds its certificate and key along with the CA certificate
+
+import json
+import os
+from datetime import datetime, timedelta, timezone
+
+import boto3
+from cryptography import x509
+from cryptography.hazmat.primitives import hashes, serialization
+from cryptography.hazmat.primitives.asymmetric import ec
+from cryptography.x509.oid import ExtendedKeyUsageOID, NameOID
+
+secretsmanager = boto3.client('secretsmanager')
+
+AUTHORITY_SECRET = os.environ['AuthoritySecret']
+# The secret arn of each role, keyed by the role the certificate is issued to
+ROLE_SECRETS = json.loads(os.environ['RoleSecrets'])
+SCHEDULER_HOST = os.environ['SchedulerHost']
+AUTHORITY_DAYS = 3650
+# Certificates outlast several rotations, so tasks started before a rotation keep working
+CERTIFICATE_DAYS = int(os.environ['CertificateDays'])
+
+
+def pem_key(key):
+    return key.private_bytes(
+        serialization.Encoding.PEM,
+        serialization.PrivateFormat.PKCS8,
+        serialization.NoEncryption(),
+    ).decode()
+
+
+def pem_certificate(certificate):
+    return certificate.public_bytes(serialization.Encoding.PEM).decode()
+
+
+def create_authority():
+    key = ec.generate_private_key(ec.SECP256R1())
+    name = x509.Name([x509.NameAttribute(NameOID.COMMON_NAME, 'dask-ca')])
+    now = datetime.now(timezone.utc)
+    certificate = (
+        x509.CertificateBuilder()
+        .subject_name(name)
+        .issuer_name(name)
+        .public_key(key.public_key())
+        .serial_number(x509.random_serial_number())
+        .not_valid_before(now - timedelta(minutes=5))
+        .not_valid_after(now + timedelta(days=AUTHORITY_DAYS))
+        .add_extension(x509.BasicConstraints(ca=True, path_length=0), critical=True)
+        .add_extension(
+            x509.KeyUsage(
+                digital_signature=False, content_commitment=False, key_encipherment=False,
+                data_encipherment=False, key_agreement=False, key_cert_sign=True,
+                crl_sign=True, encipher_only=False, decipher_only=False,
+            ),
+            critical=True,
+        )
+        .sign(key, hashes.SHA256())
+    )
+    return {'certificate': pem_certificate(certificate), 'key': pem_key(key)}
+
+
+def load_authority():
+    authority = json.loads(
+        secretsmanager.get_secret_value(SecretId=AUTHORITY_SECRET)['SecretString']
+    )
+    return (
+        x509.load_pem_x509_certificate(authority['certificate'].encode()),
+        serialization.load_pem_private_key(authority['key'].encode(), password=None),
+    )
+
+
+def issue(role):
+    ca_certificate, ca_key = load_authority()
+    key = ec.generate_private_key(ec.SECP256R1())
+    # Dask doesn't check host names, but the scheduler's is set for anything else that connects
+    names = [SCHEDULER_HOST] if role == 'scheduler' else []
+    now = datetime.now(timezone.utc)
+    builder = (
+        x509.CertificateBuilder()
+        .subject_name(x509.Name([x509.NameAttribute(NameOID.COMMON_NAME, 'dask-' + role)]))
+        .issuer_name(ca_certificate.subject)
+        .public_key(key.public_key())
+        .serial_number(x509.random_serial_number())
+        .not_valid_before(now - timedelta(minutes=5))
+        .not_valid_after(now + timedelta(days=CERTIFICATE_DAYS))
+        .add_extension(x509.BasicConstraints(ca=False, path_length=None), critical=True)
+        # Every role both accepts and opens connections, workers talk to each other as well
+        .add_extension(
+            x509.ExtendedKeyUsage([ExtendedKeyUsageOID.SERVER_AUTH, ExtendedKeyUsageOID.CLIENT_AUTH]),
+            critical=False,
+        )
+    )
+    if names:
+        builder = builder.add_extension(
+            x509.SubjectAlternativeName([x509.DNSName(name) for name in names]), critical=False
+        )
+    certificate = builder.sign(ca_key, hashes.SHA256())
+    return json.dumps({
+        'ca': pem_certificate(ca_certificate),
+        'cert': pem_certificate(certificate),
+        'key': pem_key(key),
+    })
+
+
+def verify(role, secret):
+    ca_certificate, _ = load_authority()
+    certificate = x509.load_pem_x509_certificate(secret['cert'].encode())
+    key = serialization.load_pem_private_key(secret['key'].encode(), password=None)
+    if certificate.issuer != ca_certificate.subject:
+        raise ValueError('The ' + role + ' certificate was not issued by the current CA')
+    ca_certificate.public_key().verify(
+        certificate.signature, certificate.tbs_certificate_bytes, ec.ECDSA(hashes.SHA256())
+    )
+    if certificate.public_key().public_numbers() != key.public_key().public_numbers():
+        raise ValueError('The ' + role + ' key does not match its certificate')
+
+
+def role_of(secret_id):
+    for role, arn in ROLE_SECRETS.items():
+        if secret_id == arn:
+            return role
+    raise ValueError('Secret ' + secret_id + ' is not one of the dask tls secrets')
+
+
+def rotate(event):
+    # The four steps of a Secrets Manager rotation, see
+    # https://docs.aws.amazon.com/secretsmanager/latest/userguide/rotate-secrets_turn-on-for-other.html
+    secret_id = event['SecretId']
+    token = event['ClientRequestToken']
+    step = event['Step']
+    role = role_of(secret_id)
+    versions = secretsmanager.describe_secret(SecretId=secret_id)['VersionIdsToStages']
+    if token not in versions:
+        raise ValueError('Version ' + token + ' is not staged for rotation of ' + secret_id)
+    if 'AWSCURRENT' in versions[token]:
+        return
+
+    if step == 'createSecret':
+        try:
+            secretsmanager.get_secret_value(SecretId=secret_id, VersionId=token, VersionStage='AWSPENDING')
+        except secretsmanager.exceptions.ResourceNotFoundException:
+            secretsmanager.put_secret_value(
+                SecretId=secret_id,
+                ClientRequestToken=token,
+                SecretString=issue(role),
+                VersionStages=['AWSPENDING'],
+            )
+    elif step == 'setSecret':
+        # Nothing holds the certificates but the secret, tasks read them when they start
+        pass
+    elif step == 'testSecret':
+        pending = secretsmanager.get_secret_value(
+            SecretId=secret_id, VersionId=token, VersionStage='AWSPENDING'
+        )
+        verify(role, json.loads(pending['SecretString']))
+    elif step == 'finishSecret':
+        current = next(
+            version for version, stages in versions.items() if 'AWSCURRENT' in stages
+        )
+        secretsmanager.update_secret_version_stage(
+            SecretId=secret_id,
+            VersionStage='AWSCURRENT',
+            MoveToVersionId=token,
+            RemoveFromVersionId=current,
+        )
+    else:
+        raise ValueError('Unknown rotation step ' + step)
+
+
+def handler(event, context):
+    if 'Step' in event:
+        rotate(event)
+        return {}
+
+    # Otherwise called by the stack's custom resource, the CA is only ever created on the first deploy
+    if event['RequestType'] == 'Create':
+        secretsmanager.put_secret_value(
+            SecretId=AUTHORITY_SECRET, SecretString=json.dumps(create_authority())
+        )
+    if event['RequestType'] in ['Create', 'Update']:
+        for role, arn in ROLE_SECRETS.items():
+            secretsmanager.put_secret_value(SecretId=arn, SecretString=issue(role))
+    return {'PhysicalResourceId': 'dask-tls-certificates'}
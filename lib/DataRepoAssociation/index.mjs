@@ -0,0 +1,192 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+import { createHash } from "crypto";
+import {
+  CreateDataRepositoryAssociationCommand,
+  DeleteDataRepositoryAssociationCommand,
+  DescribeDataRepositoryAssociationsCommand,
+  FSxClient,
+  TagResourceCommand,
+  UntagResourceCommand,
+  UpdateDataRepositoryAssociationCommand,
+} from "@aws-sdk/client-fsx";
+
+const fsx = new FSxClient();
+
+// Each resource linking a path claims its association with a tag of its own, so a resource being
+// deleted leaves alone an association another resource has since taken over
+const CLAIM_TAG_PREFIX = "dask-link:";
+
+const claimOf = ({ StackId, LogicalResourceId }) => ({
+  Key: `${CLAIM_TAG_PREFIX}${createHash("sha256")
+    .update(`${StackId}/${LogicalResourceId}`)
+    .digest("hex")
+    .slice(0, 32)}`,
+  Value: LogicalResourceId,
+});
+
+const otherClaims = ({ Tags = [] }, claim) =>
+  Tags.filter(
+    ({ Key }) => Key.startsWith(CLAIM_TAG_PREFIX) && Key !== claim.Key
+  );
+
+const pathId = ({ FileSystemId, FileSystemPath }) =>
+  `${FileSystemId}${FileSystemPath}`;
+
+// FSx may hand the bucket path back without the trailing slash it was given
+const samePath = (a, b) => a.replace(/\/$/, "") === b.replace(/\/$/, "");
+
+// The automatic import and export of an association, where no events turns one off
+const s3Policies = ({ AutoImportEvents = [], AutoExportEvents = [] }) => ({
+  AutoImportPolicy: { Events: AutoImportEvents },
+  AutoExportPolicy: { Events: AutoExportEvents },
+});
+
+const sameEvents = (a = [], b = []) =>
+  a.length === b.length && a.every((event) => b.includes(event));
+
+const samePolicies = ({ S3 }, properties) => {
+  const wanted = s3Policies(properties);
+  return (
+    sameEvents(S3?.AutoImportPolicy?.Events, wanted.AutoImportPolicy.Events) &&
+    sameEvents(S3?.AutoExportPolicy?.Events, wanted.AutoExportPolicy.Events)
+  );
+};
+
+// Only one association can sit at a path of the file system
+const associationAt = async ({ FileSystemId, FileSystemPath }) => {
+  let NextToken;
+  try {
+    do {
+      const page = await fsx.send(
+        new DescribeDataRepositoryAssociationsCommand({
+          Filters: [{ Name: "file-system-id", Values: [FileSystemId] }],
+          NextToken,
+        })
+      );
+      const found = page.Associations.find((association) =>
+        samePath(association.FileSystemPath, FileSystemPath)
+      );
+      if (found) return found;
+      NextToken = page.NextToken;
+    } while (NextToken);
+  } catch (error) {
+    // Associations go with their file system
+    if (error.name !== "FileSystemNotFound") throw error;
+  }
+  return undefined;
+};
+
+const release = ({ AssociationId, Lifecycle }) =>
+  Lifecycle === "DELETING"
+    ? undefined
+    : fsx.send(
+        new DeleteDataRepositoryAssociationCommand({
+          AssociationId,
+          DeleteDataInFileSystem: false,
+        })
+      );
+
+/**
+ * Lets go of the resource's association. It's only deleted when it's at the path the resource
+ * linked and no other resource claims it, otherwise the resource just drops its own claim
+ */
+const unlink = async (PhysicalResourceId, properties, claim) => {
+  // A create that failed never linked the path
+  if (PhysicalResourceId !== pathId(properties)) return true;
+  const association = await associationAt(properties);
+  if (association === undefined) return true;
+  if (otherClaims(association, claim).length > 0) {
+    if (association.Tags?.some(({ Key }) => Key === claim.Key)) {
+      await fsx.send(
+        new UntagResourceCommand({
+          ResourceARN: association.ResourceARN,
+          TagKeys: [claim.Key],
+        })
+      );
+    }
+    return true;
+  }
+  await release(association);
+  return false;
+};
+
+/**
+ * Takes the association at the resource's path one step closer to the resource, returning whether
+ * it is there. The file system only makes one association change at a time, and the bucket of an
+ * association can't be changed, so a changed dataset first removes the old association then links
+ * the new one. Its automatic import and export are changed in place
+ */
+const reconcile = async (event) => {
+  const {
+    RequestType,
+    PhysicalResourceId,
+    ResourceProperties: properties,
+  } = event;
+  const claim = claimOf(event);
+  if (RequestType === "Delete") {
+    return unlink(PhysicalResourceId, properties, claim);
+  }
+
+  const association = await associationAt(properties);
+  if (association === undefined) {
+    const { FileSystemId, FileSystemPath, DataRepositoryPath } = properties;
+    await fsx.send(
+      new CreateDataRepositoryAssociationCommand({
+        FileSystemId,
+        FileSystemPath,
+        DataRepositoryPath,
+        S3: s3Policies(properties),
+        Tags: [claim],
+      })
+    );
+    return false;
+  }
+  if (
+    !samePath(association.DataRepositoryPath, properties.DataRepositoryPath)
+  ) {
+    await release(association);
+    return false;
+  }
+  switch (association.Lifecycle) {
+    case "AVAILABLE":
+      // An association linked before claims, or by a resource the path has moved from, is taken over
+      if (!association.Tags?.some(({ Key }) => Key === claim.Key)) {
+        await fsx.send(
+          new TagResourceCommand({
+            ResourceARN: association.ResourceARN,
+            Tags: [claim],
+          })
+        );
+      }
+      if (samePolicies(association, properties)) return true;
+      await fsx.send(
+        new UpdateDataRepositoryAssociationCommand({
+          AssociationId: association.AssociationId,
+          S3: s3Policies(properties),
+        })
+      );
+      return false;
+    case "FAILED":
+    case "MISCONFIGURED":
+      throw new Error(
+        `Linking ${properties.DataRepositoryPath} to ${properties.FileSystemPath} failed: ${association.FailureDetails?.Message}`
+      );
+    default:
+      return false;
+  }
+};
+
+export const onEvent = async (event) => {
+  await reconcile(event);
+  if (event.RequestType === "Delete") {
+    return { PhysicalResourceId: event.PhysicalResourceId };
+  }
+  // A new path is a new association, so the old one is deleted once the stack has moved over
+  return { PhysicalResourceId: pathId(event.ResourceProperties) };
+};
+
+export const isComplete = async (event) => ({
+  IsComplete: await reconcile(event),
+});
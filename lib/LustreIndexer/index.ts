@@ -0,0 +1,265 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+import { DynamoDBClient } from "@aws-sdk/client-dynamodb";
+import { ListObjectsV2Command, S3Client } from "@aws-sdk/client-s3";
+import { defaultProvider } from "@aws-sdk/credential-provider-node";
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  PutCommand,
+} from "@aws-sdk/lib-dynamodb";
+import { Client } from "@opensearch-project/opensearch";
+import { AwsSigv4Signer } from "@opensearch-project/opensearch/aws";
+import type { Context } from "aws-lambda";
+
+// A dataset as the stack hands it over, see lib/WorkerConstructs/lustre-indexer.ts
+interface Dataset {
+  index: string;
+  bucket: string;
+  // The key prefix of the dataset within its bucket, ending in a slash unless it's the whole bucket
+  prefix: string;
+  // Where the dataset sits on the lustre mount
+  path: string;
+  // Set when the region's workers read straight from s3 rather than the lustre mount
+  source?: string;
+}
+
+// How far a dataset's index has been brought up to date, kept between invocations and runs
+interface Watermark {
+  index: string;
+  // The pipeline execution the sync belongs to
+  runId: string;
+  // Every key up to and including the cursor has been synced in this run
+  cursor?: string;
+  done: boolean;
+  added: number;
+  updated: number;
+  deleted: number;
+  failed: number;
+  startedAt: string;
+  // When the index last matched the whole dataset
+  syncedAt?: string;
+}
+
+interface Entry {
+  key: string;
+  etag: string;
+}
+
+interface Listed extends Entry {
+  size: number;
+  lastModified: string;
+}
+
+// Keys are listed, and the index is read, a page at a time
+const PAGE_SIZE = 1000;
+// A page is never left half synced, so the function stops once less than this is left
+const SAFETY_MARGIN_MS = 2 * 60 * 1000;
+
+const datasets: Dataset[] = JSON.parse(process.env.Datasets!);
+const region = process.env.AWS_REGION!;
+const s3 = new S3Client({ followRegionRedirects: true });
+const watermarks = DynamoDBDocumentClient.from(new DynamoDBClient({}), {
+  marshallOptions: { removeUndefinedValues: true },
+});
+const openSearch = new Client({
+  ...AwsSigv4Signer({
+    region: process.env.OpenSearchRegion!,
+    service: "es",
+    getCredentials: () => defaultProvider()(),
+  }),
+  node: `https://${process.env.OpenSearchHost}`,
+});
+
+const listPage = async (dataset: Dataset, cursor?: string) => {
+  const page = await s3.send(
+    new ListObjectsV2Command({
+      Bucket: dataset.bucket,
+      Prefix: dataset.prefix,
+      StartAfter: cursor === undefined ? undefined : dataset.prefix + cursor,
+      MaxKeys: PAGE_SIZE,
+    })
+  );
+  const contents = page.Contents ?? [];
+  const listed: Listed[] = contents
+    .filter(({ Key }) => Key !== undefined && !Key.endsWith("/"))
+    .map(({ Key, ETag, Size, LastModified }) => ({
+      key: Key!.slice(dataset.prefix.length),
+      etag: ETag ?? "",
+      size: Size ?? 0,
+      lastModified: (LastModified ?? new Date(0)).toISOString(),
+    }));
+  // Folder markers aren't files, but still mark how far the listing got
+  const last = contents[contents.length - 1]?.Key?.slice(dataset.prefix.length);
+  return { listed, last, more: page.IsTruncated === true };
+};
+
+/**
+ * Everything in the index after the cursor, up to and including the upper key when there is one. Both
+ * s3 and a keyword sort order keys by their UTF-8 bytes, so the two ranges line up
+ */
+const indexedRange = async (index: string, cursor?: string, upper?: string) => {
+  const range: Record<string, string> = {};
+  if (cursor !== undefined) range.gt = cursor;
+  if (upper !== undefined) range.lte = upper;
+  const entries: Entry[] = [];
+  let searchAfter: string[] | undefined;
+  for (;;) {
+    const { body } = await openSearch.search({
+      index,
+      body: {
+        size: PAGE_SIZE,
+        sort: [{ key: "asc" }],
+        _source: ["key", "etag"],
+        query:
+          Object.keys(range).length > 0
+            ? { range: { key: range } }
+            : { match_all: {} },
+        ...(searchAfter && { search_after: searchAfter }),
+      },
+    });
+    const hits = body.hits.hits as {
+      _source: Entry;
+      sort: string[];
+    }[];
+    entries.push(...hits.map(({ _source }) => _source));
+    if (hits.length < PAGE_SIZE) return entries;
+    searchAfter = hits[hits.length - 1].sort;
+  }
+};
+
+const document = (dataset: Dataset, item: Listed) => ({
+  ...item,
+  fileName: dataset.source
+    ? `${dataset.source.replace(/\/$/, "")}/${item.key}`
+    : `${dataset.path}/${item.key}`,
+  bucket: dataset.bucket,
+  region,
+  dask_pool: region,
+  project: dataset.bucket,
+});
+
+/**
+ * Brings one page of the dataset's keys into the index, comparing it against what the index holds for
+ * the same range of keys. New keys are added, keys whose etag has changed are replaced and keys that
+ * are no longer listed are removed. A write that fails is counted and left for the next run, which
+ * will find the same difference again
+ */
+const syncPage = async (dataset: Dataset, cursor?: string) => {
+  const { listed, last, more } = await listPage(dataset, cursor);
+  // The last page of the listing also covers anything indexed after its last key
+  const upper = more ? last : undefined;
+  const indexed = new Map(
+    (await indexedRange(dataset.index, cursor, upper)).map((entry) => [
+      entry.key,
+      entry.etag,
+    ])
+  );
+
+  const counts = { added: 0, updated: 0, deleted: 0, failed: 0 };
+  const operations: object[] = [];
+  for (const item of listed) {
+    const etag = indexed.get(item.key);
+    indexed.delete(item.key);
+    if (etag === item.etag) continue;
+    counts[etag === undefined ? "added" : "updated"]++;
+    operations.push(
+      { index: { _index: dataset.index, _id: `${dataset.path}/${item.key}` } },
+      document(dataset, item)
+    );
+  }
+  for (const key of indexed.keys()) {
+    counts.deleted++;
+    operations.push({
+      delete: { _index: dataset.index, _id: `${dataset.path}/${key}` },
+    });
+  }
+
+  if (operations.length > 0) {
+    const { body } = await openSearch.bulk({ body: operations });
+    if (body.errors) {
+      for (const item of body.items) {
+        const [action, result] = Object.entries(item)[0] as [
+          string,
+          { status: number; error?: unknown }
+        ];
+        // The document being gone already is what a delete wanted
+        if (action === "delete" && result.status === 404) continue;
+        if (result.error !== undefined) {
+          counts.failed++;
+          // One line of JSON per failure, so they can be found with Logs Insights
+          console.error(
+            JSON.stringify({
+              message: "Index write failed",
+              index: dataset.index,
+              action,
+              status: result.status,
+              error: result.error,
+            })
+          );
+        }
+      }
+    }
+  }
+  return { counts, cursor: upper, done: !more };
+};
+
+const watermarkFor = async (index: string, runId: string) => {
+  const { Item } = await watermarks.send(
+    new GetCommand({
+      TableName: process.env.WatermarkTable,
+      Key: { index },
+    })
+  );
+  const previous = Item as Watermark | undefined;
+  if (previous?.runId === runId) return previous;
+  // Each run starts the dataset from its first key, keeping when it last finished
+  return {
+    index,
+    runId,
+    done: false,
+    added: 0,
+    updated: 0,
+    deleted: 0,
+    failed: 0,
+    startedAt: new Date().toISOString(),
+    syncedAt: previous?.syncedAt,
+  };
+};
+
+/**
+ * Syncs each dataset's index a page at a time, recording the watermark after every page so that the
+ * pipeline can call it again to carry on where it stopped. It reports done once every dataset has
+ * been synced in the run
+ */
+export const handler = async (
+  { runId }: { runId: string },
+  context: Context
+) => {
+  const marks: Watermark[] = [];
+  for (const dataset of datasets) {
+    const mark = await watermarkFor(dataset.index, runId);
+    marks.push(mark);
+    while (!mark.done) {
+      if (context.getRemainingTimeInMillis() < SAFETY_MARGIN_MS) {
+        return { done: false, datasets: marks };
+      }
+      const page = await syncPage(dataset, mark.cursor);
+      mark.added += page.counts.added;
+      mark.updated += page.counts.updated;
+      mark.deleted += page.counts.deleted;
+      mark.failed += page.counts.failed;
+      mark.cursor = page.cursor;
+      mark.done = page.done;
+      if (page.done) mark.syncedAt = new Date().toISOString();
+      await watermarks.send(
+        new PutCommand({
+          TableName: process.env.WatermarkTable,
+          Item: mark,
+        })
+      );
+    }
+  }
+  return { done: true, datasets: marks };
+};
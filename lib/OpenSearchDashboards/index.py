@@ -0,0 +1,97 @@
+#  Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+#  SPDX-License-Identifier: MIT-0
+
+# Imports the saved objects analysts start from in OpenSearch Dashboards: an index pattern over every
+# dataset alias and a table of how many files each region and dataset holds. The import overwrites
+# the objects by their ids, so each stack update restores what the stack ships, and they're left in
+# place when the stack stops managing them
+
+import json
+import os
+
+import boto3
+import requests
+from opensearchpy import AWSV4SignerAuth
+
+INDEX_PATTERN = 'dask-datasets'
+VISUALIZATION = 'dask-files-per-region-and-dataset'
+HOST = os.environ['OpenSearchHost']
+
+
+def auth():
+    if 'MasterUserSecret' not in os.environ:
+        return AWSV4SignerAuth(boto3.Session().get_credentials(), os.environ['AWS_REGION'])
+    master_user = json.loads(boto3.client('secretsmanager').get_secret_value(
+        SecretId=os.environ['MasterUserSecret']
+    )['SecretString'])
+    return (master_user['username'], master_user['password'])
+
+
+def saved_objects(aliases):
+    index_pattern = {
+        'type': 'index-pattern',
+        'id': INDEX_PATTERN,
+        'attributes': {'title': ','.join(aliases)},
+        'references': [],
+    }
+    # Each dataset's entries sit in the versioned index behind its alias, which names the dataset
+    files = {
+        'type': 'visualization',
+        'id': VISUALIZATION,
+        'attributes': {
+            'title': 'Files per region/dataset',
+            'visState': json.dumps({
+                'title': 'Files per region/dataset',
+                'type': 'table',
+                'params': {'perPage': 20, 'showTotal': True, 'totalFunc': 'sum'},
+                'aggs': [
+                    {'id': '1', 'enabled': True, 'type': 'count', 'schema': 'metric', 'params': {}},
+                    {'id': '2', 'enabled': True, 'type': 'terms', 'schema': 'bucket',
+                     'params': {'field': 'region', 'size': 50, 'order': 'desc', 'orderBy': '1'}},
+                    {'id': '3', 'enabled': True, 'type': 'terms', 'schema': 'bucket',
+                     'params': {'field': '_index', 'size': 200, 'order': 'desc', 'orderBy': '1'}},
+                ],
+            }),
+            'uiStateJSON': '{}',
+            'description': 'How many files each region has catalogued for each of its datasets',
+            'kibanaSavedObjectMeta': {
+                'searchSourceJSON': json.dumps({
+                    'indexRefName': 'kibanaSavedObjectMeta.searchSourceJSON.index',
+                    'query': {'query': '', 'language': 'kuery'},
+                    'filter': [],
+                }),
+            },
+        },
+        'references': [{
+            'name': 'kibanaSavedObjectMeta.searchSourceJSON.index',
+            'type': 'index-pattern',
+            'id': INDEX_PATTERN,
+        }],
+    }
+    return [index_pattern, files]
+
+
+def on_event(event, context):
+    print(json.dumps({key: event[key] for key in ['RequestType', 'ResourceProperties']}))
+    if event['RequestType'] == 'Delete':
+        return {'PhysicalResourceId': event['PhysicalResourceId']}
+
+    aliases = event['ResourceProperties']['Datasets']
+    ndjson = ''.join(json.dumps(saved_object) + '\n' for saved_object in saved_objects(aliases))
+    headers = {'osd-xsrf': 'true'}
+    # With fine-grained access control the objects would otherwise land in the master user's own tenant
+    if 'MasterUserSecret' in os.environ:
+        headers['securitytenant'] = 'global'
+    response = requests.post(
+        f'https://{HOST}/_dashboards/api/saved_objects/_import',
+        params={'overwrite': 'true'},
+        files={'file': ('dask-datasets.ndjson', ndjson, 'application/ndjson')},
+        headers=headers,
+        auth=auth(),
+        timeout=60,
+    )
+    response.raise_for_status()
+    result = response.json()
+    if not result.get('success'):
+        raise Exception(f'Importing the saved objects failed: {json.dumps(result.get("errors"))}')
+    return {'PhysicalResourceId': 'dask-datasets-saved-objects'}
@@ -0,0 +1,193 @@
+#  Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+#  SPDX-License-Identifier: MIT-0
+
+# Installs the schema of the dataset indexes on the client's OpenSearch domain. Every dataset is read
+# and written through an alias named after its index, which points at a versioned index created from
+# the template. When the schema version changes, each dataset is reindexed into an index of the new
+# version and its alias swapped over once the copy has finished, so searches never see a half built
+# index. The version it replaced is made read only and deleted by ISM after it has aged out. When the
+# domain has fine-grained access control, the function signs in as the master user and maps the
+# notebook and indexer roles to the read only and writer roles of the security plugin
+
+import json
+import os
+
+import boto3
+from opensearchpy import AWSV4SignerAuth, NotFoundError, OpenSearch, RequestsHttpConnection
+
+TEMPLATE = 'dask-datasets'
+RETIRED_POLICY = 'dask-datasets-retired'
+READER_ROLE = 'dask_reader'
+WRITER_ROLE = 'dask_writer'
+# The security plugin's own role for using Dashboards
+DASHBOARDS_ROLE = 'kibana_user'
+
+
+def auth():
+    if 'MasterUserSecret' not in os.environ:
+        return AWSV4SignerAuth(boto3.Session().get_credentials(), os.environ['AWS_REGION'])
+    master_user = json.loads(boto3.client('secretsmanager').get_secret_value(
+        SecretId=os.environ['MasterUserSecret']
+    )['SecretString'])
+    return (master_user['username'], master_user['password'])
+
+
+client = OpenSearch(
+    hosts=[{'host': os.environ['OpenSearchHost'], 'port': 443}],
+    http_auth=auth(),
+    use_ssl=True,
+    verify_certs=True,
+    connection_class=RequestsHttpConnection,
+    timeout=60,
+)
+
+
+def versioned(alias, version):
+    return f'{alias}-v{version}'
+
+
+def current_index(alias):
+    '''The index the alias points at, the alias itself if it's still an index from before the schema
+    was versioned, or None if the dataset has never been indexed'''
+    try:
+        indexes = client.indices.get_alias(name=alias)
+        return next(
+            (index for index, entry in indexes.items() if entry['aliases'][alias].get('is_write_index')),
+            next(iter(indexes)),
+        )
+    except NotFoundError:
+        return alias if client.indices.exists(index=alias) else None
+
+
+def put_retired_policy(days):
+    path = f'/_plugins/_ism/policies/{RETIRED_POLICY}'
+    policy = {
+        'description': 'Dataset index versions no longer behind their alias',
+        'default_state': 'retired',
+        'states': [
+            {
+                'name': 'retired',
+                'actions': [{'read_only': {}}],
+                'transitions': [{'state_name': 'deleted', 'conditions': {'min_index_age': f'{days}d'}}],
+            },
+            {'name': 'deleted', 'actions': [{'delete': {}}], 'transitions': []},
+        ],
+    }
+    # An existing policy can only be replaced by naming the revision it replaces
+    try:
+        existing = client.transport.perform_request('GET', path)
+        params = {'if_seq_no': existing['_seq_no'], 'if_primary_term': existing['_primary_term']}
+    except NotFoundError:
+        params = {}
+    client.transport.perform_request('PUT', path, params=params, body={'policy': policy})
+
+
+def put_template(aliases, version, mappings):
+    client.indices.put_index_template(name=TEMPLATE, body={
+        'index_patterns': [f'{alias}-v*' for alias in aliases],
+        'version': version,
+        'template': {'mappings': mappings},
+    })
+
+
+def put_security_roles(aliases, readers, writers, dashboards_users):
+    '''Scopes both roles to the dataset aliases and their versions, replacing whoever was mapped to
+    them before. Dashboards users are only mapped when Dashboards is served'''
+    patterns = [pattern for alias in aliases for pattern in [alias, f'{alias}-v*']]
+    roles = {
+        READER_ROLE: ({
+            'cluster_permissions': ['cluster_composite_ops_ro'],
+            'index_permissions': [{'index_patterns': patterns, 'allowed_actions': ['read']}],
+        }, readers),
+        WRITER_ROLE: ({
+            'cluster_permissions': ['cluster_composite_ops'],
+            'index_permissions': [{'index_patterns': patterns, 'allowed_actions': ['crud', 'indices_monitor']}],
+        }, writers),
+    }
+    for role, (permissions, backend_roles) in roles.items():
+        client.transport.perform_request('PUT', f'/_plugins/_security/api/roles/{role}', body=permissions)
+        client.transport.perform_request(
+            'PUT', f'/_plugins/_security/api/rolesmapping/{role}', body={'backend_roles': backend_roles}
+        )
+    if dashboards_users:
+        client.transport.perform_request(
+            'PUT', f'/_plugins/_security/api/rolesmapping/{DASHBOARDS_ROLE}', body={'backend_roles': dashboards_users}
+        )
+
+
+def swap(alias, target, current):
+    '''Points the alias at the target in one step. An index from before the schema was versioned is
+    removed as the alias takes its name, while an older version is retired'''
+    actions = [{'add': {'index': target, 'alias': alias, 'is_write_index': True}}]
+    if current == alias:
+        actions.append({'remove_index': {'index': alias}})
+    else:
+        actions.insert(0, {'remove': {'index': current, 'alias': alias}})
+    client.indices.update_aliases(body={'actions': actions})
+    if current != alias:
+        client.transport.perform_request('POST', f'/_plugins/_ism/add/{current}', body={'policy_id': RETIRED_POLICY})
+
+
+def on_event(event, context):
+    print(json.dumps({key: event[key] for key in ['RequestType', 'ResourceProperties']}))
+    # The indexes are the data, so they're left in place when the stack stops managing them
+    if event['RequestType'] == 'Delete':
+        return {'PhysicalResourceId': event['PhysicalResourceId']}
+
+    properties = event['ResourceProperties']
+    aliases = properties['Datasets']
+    version = int(properties['SchemaVersion'])
+    put_retired_policy(int(properties['RetiredIndexDays']))
+    put_template(aliases, version, json.loads(properties['Mappings']))
+    if 'MasterUserSecret' in os.environ:
+        put_security_roles(
+            aliases,
+            properties.get('ReaderRoles', []),
+            properties.get('WriterRoles', []),
+            properties.get('DashboardsRoles', []),
+        )
+
+    # Datasets that already have an index are copied into the new version in the background
+    reindexing = {}
+    for alias in aliases:
+        target = versioned(alias, version)
+        current = current_index(alias)
+        if current == target:
+            continue
+        if current is None:
+            client.indices.create(index=target, body={'aliases': {alias: {'is_write_index': True}}})
+            continue
+        if not client.indices.exists(index=target):
+            client.indices.create(index=target)
+        task = client.reindex(
+            body={'source': {'index': current}, 'dest': {'index': target}},
+            wait_for_completion=False,
+        )
+        print(f'Reindexing {current} into {target} as task {task["task"]}')
+        reindexing[alias] = task['task']
+    return {'PhysicalResourceId': TEMPLATE, 'Data': {'Reindexing': json.dumps(reindexing)}}
+
+
+def is_complete(event, context):
+    if event['RequestType'] == 'Delete':
+        return {'IsComplete': True}
+
+    version = int(event['ResourceProperties']['SchemaVersion'])
+    reindexing = json.loads(event['Data']['Reindexing'])
+    complete = True
+    for alias, task_id in reindexing.items():
+        target = versioned(alias, version)
+        current = current_index(alias)
+        if current == target:
+            continue
+        task = client.tasks.get(task_id=task_id)
+        if not task['completed']:
+            complete = False
+            continue
+        failures = task.get('error') or task.get('response', {}).get('failures')
+        if failures:
+            raise Exception(f'Reindexing {current} into {target} failed: {json.dumps(failures)}')
+        # Files the indexer wrote to the old version during the copy are picked up by its next run
+        swap(alias, target, current)
+        print(f'{alias} now points at {target}')
+    return {'IsComplete': complete}
@@ -0,0 +1,122 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+import { createHash } from "crypto";
+import {
+  ECRClient,
+  GetRegistryScanningConfigurationCommand,
+  PutRegistryScanningConfigurationCommand,
+} from "@aws-sdk/client-ecr";
+import {
+  DeleteParameterCommand,
+  GetParameterCommand,
+  GetParametersByPathCommand,
+  PutParameterCommand,
+  SSMClient,
+} from "@aws-sdk/client-ssm";
+
+const ecr = new ECRClient();
+const ssm = new SSMClient();
+
+// The registry is shared by every deployment in the region, so each stack needing enhanced scanning
+// holds a claim on it, and the scanning from before the first claim is kept next to them
+const claimsPath = (path) => `${path}/claims`;
+const previousName = (path) => `${path}/previous`;
+
+const claims = async (path) => {
+  const names = [];
+  let NextToken;
+  do {
+    const page = await ssm.send(
+      new GetParametersByPathCommand({ Path: claimsPath(path), NextToken })
+    );
+    names.push(...page.Parameters.map(({ Name }) => Name));
+    NextToken = page.NextToken;
+  } while (NextToken);
+  return names;
+};
+
+const deleteParameter = async (Name) => {
+  try {
+    await ssm.send(new DeleteParameterCommand({ Name }));
+  } catch (error) {
+    if (error.name !== "ParameterNotFound") throw error;
+  }
+};
+
+const restore = async ({ scanType, rules }) => {
+  await ecr.send(
+    new PutRegistryScanningConfigurationCommand({ scanType, rules })
+  );
+};
+
+// Claims the registry's scanning for the stack. Only the first claim saves the scanning the registry
+// had, which the parameter not being overwritten settles between stacks deploying at once
+const claim = async (path, claimId, stackId) => {
+  const { scanningConfiguration } = await ecr.send(
+    new GetRegistryScanningConfigurationCommand({})
+  );
+  try {
+    await ssm.send(
+      new PutParameterCommand({
+        Name: previousName(path),
+        Value: JSON.stringify(scanningConfiguration),
+        Type: "String",
+        Overwrite: false,
+      })
+    );
+  } catch (error) {
+    // Another claim saved it first
+    if (error.name !== "ParameterAlreadyExists") throw error;
+  }
+  await ssm.send(
+    new PutParameterCommand({
+      Name: `${claimsPath(path)}/${claimId}`,
+      Value: stackId,
+      Type: "String",
+      Overwrite: true,
+    })
+  );
+};
+
+export const handler = async ({
+  RequestType,
+  StackId,
+  LogicalResourceId,
+  PhysicalResourceId,
+  ResourceProperties,
+}) => {
+  const path = ResourceProperties.ClaimsPath;
+  const claimId = createHash("sha256")
+    .update(`${StackId}/${LogicalResourceId}`)
+    .digest("hex")
+    .slice(0, 32);
+
+  if (RequestType === "Delete") {
+    // A create that failed never claimed the registry, and has nothing to put back
+    if (PhysicalResourceId !== claimId) return { PhysicalResourceId };
+    await deleteParameter(`${claimsPath(path)}/${claimId}`);
+    // The last stack to let go of the registry puts back the scanning from before the first claim
+    if ((await claims(path)).length > 0) return { PhysicalResourceId };
+    try {
+      const { Parameter } = await ssm.send(
+        new GetParameterCommand({ Name: previousName(path) })
+      );
+      await restore(JSON.parse(Parameter.Value));
+    } catch (error) {
+      if (error.name !== "ParameterNotFound") throw error;
+    }
+    await deleteParameter(previousName(path));
+    return { PhysicalResourceId };
+  }
+
+  if (RequestType === "Create") {
+    await claim(path, claimId, StackId);
+  }
+  await ecr.send(
+    new PutRegistryScanningConfigurationCommand({
+      scanType: ResourceProperties.ScanType,
+    })
+  );
+  return { PhysicalResourceId: claimId };
+};
@@ -33,4 +33,65 @@ def create_dropdown(variable_types, widgets, description, on_change):
     
     
     
-    return w
\ No newline at end of file
+    return w
+
+def call_worker_scaling(region, payload):
+    # Each worker region has a scaling api, listed in the deployment config written at notebook start
+    import boto3
+    import json
+    with open('/home/ec2-user/dask-deployment.json') as f:
+        function_name = json.load(f)['workerScalingFunctions'][region]
+    response = boto3.client('lambda', region_name=region).invoke(
+        FunctionName=function_name,
+        Payload=json.dumps(payload),
+    )
+    result = json.loads(response['Payload'].read())
+    if 'FunctionError' in response:
+        raise RuntimeError(result.get('errorMessage', result))
+    return result
+
+
+def request_workers(region, workers, hours):
+    # Keeps at least this many workers running in the region until the lease runs out
+    return call_worker_scaling(region, {'action': 'lease', 'workers': workers, 'hours': hours})
+
+
+def release_workers(region, lease_id):
+    return call_worker_scaling(region, {'action': 'release', 'leaseId': lease_id})
+
+
+def worker_status(region):
+    # The desired and running tasks of the region's workers service, and its active leases
+    return call_worker_scaling(region, {'action': 'status'})
+
+
+def connect_scheduler(**kwargs):
+    # Connects to this deployment's scheduler, over tls:// with the notebook's certificate when the
+    # deployment runs dask over tls
+    import json
+    import os
+    from dask.distributed import Client
+    with open('/home/ec2-user/dask-deployment.json') as f:
+        deployment = json.load(f)
+    if 'tlsSecret' not in deployment:
+        return Client(deployment['scheduler'], **kwargs)
+
+    import boto3
+    from distributed.security import Security
+    certificates = json.loads(boto3.client('secretsmanager').get_secret_value(
+        SecretId=deployment['tlsSecret'],
+    )['SecretString'])
+    directory = os.path.expanduser('~/.dask-tls')
+    os.makedirs(directory, mode=0o700, exist_ok=True)
+    files = {}
+    for name in ['ca', 'cert', 'key']:
+        files[name] = os.path.join(directory, name + '.pem')
+        with open(os.open(files[name], os.O_WRONLY | os.O_CREAT | os.O_TRUNC, 0o600), 'w') as f:
+            f.write(certificates[name])
+    security = Security(
+        tls_ca_file=files['ca'],
+        tls_client_cert=files['cert'],
+        tls_client_key=files['key'],
+        require_encryption=True,
+    )
+    return Client(deployment['scheduler'], security=security, **kwargs)
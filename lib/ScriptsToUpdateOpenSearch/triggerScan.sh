@@ -1,7 +1,5 @@
-echo 'Start lfs' > /tmp/triggerScan.log
+echo 'Start indexing to OpenSearch' > /tmp/triggerScan.log
 date +%s >> /tmp/triggerScan.log
-lfs find /fsx -type f >> fileToWriteToOpenSearch.txt
-echo 'lfs Done, start indexing to OpenSearch' >> /tmp/triggerScan.log
-python3 updateOpenSearch.py
+python3 /updateOpenSearch.py >> /tmp/triggerScan.log 2>&1 || { echo 'Failed triggerScan.sh' >> /tmp/triggerScan.log; exit 1; }
 date +%s >> /tmp/triggerScan.log
 echo 'Done triggerScan.sh' >> /tmp/triggerScan.log
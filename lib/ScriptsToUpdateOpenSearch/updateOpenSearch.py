@@ -5,21 +5,26 @@ from opensearchpy import OpenSearch, RequestsHttpConnection, AWSV4SignerAuth
 from opensearchpy.helpers import bulk
 import requests
 import boto3
+import json
+import subprocess
 
 local_region = requests.get('http://169.254.169.254/latest/meta-data/placement/region').text
 
+# Parameters are prefixed with the deployment identifier, if one was given
+with open('/dask-parameter-prefix') as prefix_file:
+    prefix = prefix_file.read().strip()
+
 worker_region_ssm = boto3.client('ssm', region_name=local_region)
 client_region = worker_region_ssm.get_parameter(
-    Name='client-region-for-dask-worker-' + local_region
-)['Parameter']['Value']
-bucket = worker_region_ssm.get_parameter(
-    Name='worker-region-data-bucket-for-dask-worker-' + local_region
+    Name=prefix + 'client-region-for-dask-worker-' + local_region
 )['Parameter']['Value']
+datasets = json.loads(worker_region_ssm.get_parameter(
+    Name=prefix + 'worker-region-datasets-for-dask-worker-' + local_region
+)['Parameter']['Value'])
 
-client_region_ssm = boto3.client('ssm', region_name=client_region)
-host = client_region_ssm.get_parameter(
-    Name='client-opensearch-domain-' + client_region
-    )['Parameter']['Value']
+host = worker_region_ssm.get_parameter(
+    Name=prefix + 'opensearch-domain-for-dask-worker-' + local_region
+)['Parameter']['Value']
 
 credentials = boto3.Session().get_credentials()
 auth = AWSV4SignerAuth(credentials, client_region)
@@ -32,29 +37,39 @@ client = OpenSearch(
     connection_class = RequestsHttpConnection
 )
 
-file1 = open('fileToWriteToOpenSearch.txt', 'r')
-Lines = file1.readlines()
-
-# Strips the newline character
-bulk_data = []
-for line in Lines:
-    filePath = line.strip()
-
-    bulk_data.append({
-        '_index': bucket,
-        '_id': line.strip(),
-        '_source': {
-            'fileName': filePath,
-            'bucket': bucket,
-            'region': local_region,
-            'dask_pool': local_region,
-            'project': bucket
-        },
-    })
-try:
-    client.indices.delete(index=bucket)
-except:
-    print('Index does not currently exist')
-print('Starting Bulk Upload to OpenSearch')
-bulk(client, bulk_data)
-print('Bulk Done')
\ No newline at end of file
+# Each dataset has its own index, which is rebuilt from the files under its lustre path
+for dataset in datasets:
+    index = dataset['index']
+    bucket = dataset['bucket']
+    # Set when the region's workers read straight from s3 rather than the lustre mount
+    source = dataset.get('source')
+    print('Listing ' + dataset['path'])
+    Lines = subprocess.run(
+        ['lfs', 'find', dataset['path'], '-type', 'f'],
+        stdout=subprocess.PIPE, universal_newlines=True, check=True
+    ).stdout.splitlines()
+
+    # Strips the newline character
+    bulk_data = []
+    for line in Lines:
+        filePath = line.strip()
+        fileName = filePath
+        if source:
+            fileName = source.rstrip('/') + filePath[len(dataset['path']):]
+
+        bulk_data.append({
+            '_index': index,
+            '_id': filePath,
+            '_source': {
+                'fileName': fileName,
+                'bucket': bucket,
+                'region': local_region,
+                'dask_pool': local_region,
+                'project': bucket
+            },
+        })
+    # The index is an alias the client stack manages, so its entries are cleared rather than the index
+    client.delete_by_query(index=index, body={'query': {'match_all': {}}}, conflicts='proceed', refresh=True)
+    print('Starting Bulk Upload of ' + index + ' to OpenSearch')
+    bulk(client, bulk_data)
+    print('Bulk Done')
@@ -6,16 +6,20 @@ import {
   AwsCustomResource,
   AwsCustomResourcePolicy,
   AwsSdkCall,
+  PhysicalResourceId,
 } from "aws-cdk-lib/custom-resources";
 
 interface AcceptTGWRequestClientProps {
   attachmentId: string;
   region: string;
   account: string;
+  // When the peer is in another account, the role to assume there to accept the request
+  assumedRoleArn?: string;
 }
 
 /**
- * Make an SDK call from the peer region to accept the peering connection
+ * Make an SDK call from the peer region to accept the peering connection. A replaced attachment is
+ * accepted in turn, while the attachment itself is deleted along with the stack that requested it
  */
 export class AcceptTGWRequestClient extends AwsCustomResource {
   constructor(
@@ -23,7 +27,7 @@ export class AcceptTGWRequestClient extends AwsCustomResource {
     name: string,
     props: AcceptTGWRequestClientProps
   ) {
-    const { attachmentId, region, account } = props;
+    const { attachmentId, region, account, assumedRoleArn } = props;
 
     const ssmAwsSdkCall: AwsSdkCall = {
       service: "EC2",
@@ -32,11 +36,17 @@ export class AcceptTGWRequestClient extends AwsCustomResource {
         TransitGatewayAttachmentId: attachmentId,
       },
       region,
-      physicalResourceId: { id: "acceptTransitGatewayPeeringAttachment" },
+      assumedRoleArn,
+      physicalResourceId: PhysicalResourceId.of(attachmentId),
     };
 
     super(scope, name, {
-      onUpdate: ssmAwsSdkCall,
+      onCreate: ssmAwsSdkCall,
+      // The same attachment is already accepted when only the role or the resource itself changed
+      onUpdate: {
+        ...ssmAwsSdkCall,
+        ignoreErrorCodesMatching: "IncorrectState",
+      },
       policy: AwsCustomResourcePolicy.fromSdkCalls({
         resources: [
           `arn:aws:ec2:${region}:${account}:transit-gateway-attachment/${attachmentId}`,
@@ -1,68 +1,151 @@
 // Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
 // SPDX-License-Identifier: MIT-0
 
-import {
-  AwsCustomResource,
-  AwsCustomResourcePolicy,
-  AwsSdkCall,
-} from "aws-cdk-lib/custom-resources";
+import { CustomResource, Duration, Stack } from "aws-cdk-lib";
 import { PolicyStatement } from "aws-cdk-lib/aws-iam";
+import { Code, Function, Runtime } from "aws-cdk-lib/aws-lambda";
+import { Provider } from "aws-cdk-lib/custom-resources";
+import { NagSuppressions } from "cdk-nag";
 import { Construct } from "constructs";
+import { DataRepositoryEvent } from "../../bin/interface";
+import path = require("path");
+
+/**
+ * The function behind every data link of a stack, which waits on each association as it changes
+ */
+class DataRepoAssociationProvider extends Construct {
+  static of(scope: Construct): DataRepoAssociationProvider {
+    const stack = Stack.of(scope);
+    const existing = stack.node.tryFindChild("Data Repo Associations");
+    return existing instanceof DataRepoAssociationProvider
+      ? existing
+      : new DataRepoAssociationProvider(stack, "Data Repo Associations");
+  }
+
+  readonly fn: Function;
+  readonly serviceToken: string;
+
+  constructor(scope: Construct, name: string) {
+    super(scope, name);
+    const code = Code.fromAsset(
+      path.join(__dirname, "..", "DataRepoAssociation")
+    );
+    this.fn = new Function(this, "Data Repo Association Function", {
+      runtime: Runtime.NODEJS_18_X,
+      handler: "index.onEvent",
+      code,
+      timeout: Duration.minutes(1),
+      // Creating an association reads the bucket and sets up the service linked role it uses
+      initialPolicy: [
+        new PolicyStatement({
+          actions: [
+            "s3:Get*",
+            "s3:List*",
+            "s3:PutObject",
+            "iam:CreateServiceLinkedRole",
+            "iam:AttachRolePolicy",
+            "iam:PutRolePolicy",
+          ],
+          resources: ["*"],
+        }),
+      ],
+    });
+    const isComplete = new Function(this, "Data Repo Association Waiter", {
+      runtime: Runtime.NODEJS_18_X,
+      handler: "index.isComplete",
+      code,
+      timeout: Duration.minutes(1),
+      role: this.fn.role,
+    });
+    // Associations take several minutes to create or delete, and are changed one at a time
+    const provider = new Provider(this, "Data Repo Association Provider", {
+      onEventHandler: this.fn,
+      isCompleteHandler: isComplete,
+      queryInterval: Duration.seconds(30),
+      totalTimeout: Duration.hours(1),
+    });
+    this.serviceToken = provider.serviceToken;
+    NagSuppressions.addResourceSuppressions(
+      [this.fn, provider],
+      [
+        {
+          id: "AwsSolutions-IAM5",
+          reason:
+            "Needs a * on association Id, creating an association reads the bucket and sets up its service linked role, and the provider invokes every version of the functions",
+        },
+        {
+          id: "AwsSolutions-SF1",
+          reason:
+            "The provider's waiter only polls the association, its history is kept by the functions' logs",
+        },
+        {
+          id: "AwsSolutions-SF2",
+          reason:
+            "The provider's waiter only polls the association, its history is kept by the functions' logs",
+        },
+      ],
+      true
+    );
+  }
+}
 
 interface ParameterProps {
   DataRepositoryPath: string;
   FileSystemId: string;
   FileSystemPath: string;
+  // The bucket changes imported into lustre, and the lustre changes exported to the bucket, as they happen
+  AutoImportEvents?: DataRepositoryEvent[];
+  AutoExportEvents?: DataRepositoryEvent[];
   region: string;
   account: string;
 }
 
 /**
- * An SDK call to create a data link to a public s3 bucket from lustre
+ * Links a public s3 bucket to a path of lustre. Changing the bucket replaces the association, changing
+ * its automatic import or export updates it in place, and removing the link deletes it, leaving the
+ * file system free to be deleted. The association is tagged with the link claiming it, so removing a
+ * link whose path another link has taken over leaves the association in place
  */
-export class CreateDataLinkRepoClient extends AwsCustomResource {
+export class CreateDataLinkRepoClient extends Construct {
   constructor(scope: Construct, name: string, props: ParameterProps) {
+    super(scope, name);
     const {
       DataRepositoryPath,
       FileSystemId,
       FileSystemPath,
+      AutoImportEvents,
+      AutoExportEvents,
       region,
       account,
     } = props;
 
-    const ssmAwsSdkCall: AwsSdkCall = {
-      service: "FSx",
-      action: "createDataRepositoryAssociation",
-      parameters: {
+    const provider = DataRepoAssociationProvider.of(this);
+    provider.fn.addToRolePolicy(
+      new PolicyStatement({
+        actions: [
+          "fsx:CreateDataRepositoryAssociation",
+          "fsx:DeleteDataRepositoryAssociation",
+          "fsx:DescribeDataRepositoryAssociations",
+          "fsx:UpdateDataRepositoryAssociation",
+          "fsx:TagResource",
+          "fsx:UntagResource",
+        ],
+        resources: [
+          `arn:aws:fsx:${region}:${account}:association/${FileSystemId}/*`,
+          `arn:aws:fsx:${region}:${account}:file-system/${FileSystemId}`,
+        ],
+      })
+    );
+    new CustomResource(this, "Association", {
+      serviceToken: provider.serviceToken,
+      resourceType: "Custom::DataRepositoryAssociation",
+      properties: {
         DataRepositoryPath,
         FileSystemId,
         FileSystemPath,
+        AutoImportEvents,
+        AutoExportEvents,
       },
-      physicalResourceId: { id: "createDataRepositoryAssociation" },
-    };
-
-    super(scope, name, {
-      onUpdate: ssmAwsSdkCall,
-      policy: AwsCustomResourcePolicy.fromStatements([
-        new PolicyStatement({
-          actions: ["fsx:CreateDataRepositoryAssociation"],
-          resources: [
-            `arn:aws:fsx:${region}:${account}:association/${FileSystemId}/*`,
-            `arn:aws:fsx:${region}:${account}:file-system/${FileSystemId}`,
-          ],
-        }),
-        new PolicyStatement({
-          actions: [
-            "s3:Get*",
-            "s3:List*",
-            "s3:PutObject",
-            "iam:CreateServiceLinkedRole",
-            "iam:AttachRolePolicy",
-            "iam:PutRolePolicy",
-          ],
-          resources: AwsCustomResourcePolicy.ANY_RESOURCE,
-        }),
-      ]),
     });
   }
 }
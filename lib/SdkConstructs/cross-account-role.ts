@@ -0,0 +1,131 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+import { Stack } from "aws-cdk-lib";
+import {
+  AccountPrincipal,
+  CompositePrincipal,
+  PolicyStatement,
+  Role,
+} from "aws-cdk-lib/aws-iam";
+import { NagSuppressions } from "cdk-nag";
+import { Construct } from "constructs";
+import { deploymentName } from "../deployment-name";
+
+interface CrossAccountRoleProps {
+  trustedAccounts: string[];
+  parameterNames: string[];
+  // The namespace the scheduler publishes the region's pool metrics to, for worker regions
+  metricNamespace?: string;
+}
+
+/**
+ * A role assumed by the SDK calls of stacks in other accounts, allowing them to read this region's
+ * parameters and accept transit gateway peering requests made to it. In a worker region the
+ * scheduler also publishes the pool's metrics through it
+ */
+export class CrossAccountRole extends Role {
+  /**
+   * The role's name is fixed per region so other accounts can assume it without looking it up
+   *
+   * @param scope - Any construct within the app, used to resolve the deployment identifier
+   * @param account - The account the role sits in
+   * @param region - The region whose resources the role gives access to
+   */
+  static arnFor(scope: Construct, account: string, region: string): string {
+    return `arn:aws:iam::${account}:role/${deploymentName(
+      scope,
+      `dask-cross-account-${region}`
+    )}`;
+  }
+
+  constructor(scope: Construct, name: string, props: CrossAccountRoleProps) {
+    const { trustedAccounts, parameterNames, metricNamespace } = props;
+    const { region, account } = Stack.of(scope);
+
+    super(scope, name, {
+      roleName: deploymentName(scope, `dask-cross-account-${region}`),
+      assumedBy: new CompositePrincipal(
+        ...trustedAccounts.map((trusted) => new AccountPrincipal(trusted))
+      ),
+    });
+    // Imports tag the parameters they read, so they can't be removed while still in use
+    this.addToPolicy(
+      new PolicyStatement({
+        actions: [
+          "ssm:GetParameter",
+          "ssm:AddTagsToResource",
+          "ssm:RemoveTagsFromResource",
+        ],
+        resources: parameterNames.map(
+          (parameterName) =>
+            `arn:aws:ssm:${region}:${account}:parameter/${parameterName}`
+        ),
+      })
+    );
+    this.addToPolicy(
+      new PolicyStatement({
+        actions: ["ec2:AcceptTransitGatewayPeeringAttachment"],
+        resources: [
+          `arn:aws:ec2:${region}:${account}:transit-gateway-attachment/*`,
+        ],
+      })
+    );
+    if (metricNamespace) {
+      this.addToPolicy(
+        new PolicyStatement({
+          actions: ["cloudwatch:PutMetricData"],
+          resources: ["*"],
+          conditions: {
+            StringEquals: { "cloudwatch:namespace": metricNamespace },
+          },
+        })
+      );
+    }
+    NagSuppressions.addResourceSuppressions(
+      this,
+      [
+        {
+          id: "AwsSolutions-IAM5",
+          reason:
+            "Peering attachment ids are created dynamically by the peer region, parameters are matched by prefix and metrics are limited by namespace",
+        },
+      ],
+      true
+    );
+  }
+}
+
+/**
+ * Resolve the role to assume when a stack makes an SDK call against another region's resources,
+ * which is only needed when that region is deployed to a different account
+ *
+ * @param scope - The construct making the call
+ * @param peer - The region and account of the resources being called
+ */
+export const crossAccountRoleArn = (
+  scope: Construct,
+  peer: { region: string; account?: string }
+): string | undefined =>
+  peer.account !== undefined && peer.account !== Stack.of(scope).account
+    ? CrossAccountRole.arnFor(scope, peer.account, peer.region)
+    : undefined;
+
+/**
+ * The accounts other than the scope's own that make SDK calls against it
+ *
+ * @param scope - The construct whose stack's account is excluded
+ * @param peers - The regions that may call in
+ */
+export const trustedAccounts = (
+  scope: Construct,
+  peers: { account?: string }[]
+): string[] =>
+  peers
+    .map(({ account }) => account)
+    .filter(
+      (account, i, accounts): account is string =>
+        account !== undefined &&
+        account !== Stack.of(scope).account &&
+        accounts.indexOf(account) === i
+    );
@@ -0,0 +1,284 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+import {
+  CfnResource,
+  CustomResource,
+  Duration,
+  Lazy,
+  Stack,
+} from "aws-cdk-lib";
+import { PolicyStatement } from "aws-cdk-lib/aws-iam";
+import { Code, Function, Runtime } from "aws-cdk-lib/aws-lambda";
+import { CfnParameter, StringParameter } from "aws-cdk-lib/aws-ssm";
+import { Provider } from "aws-cdk-lib/custom-resources";
+import { NagSuppressions } from "cdk-nag";
+import { Construct } from "constructs";
+import { createHash } from "crypto";
+import path = require("path");
+
+/**
+ * The function behind both ends of a cross region reference, created once in each stack using one
+ */
+class CrossRegionReferenceProvider extends Construct {
+  static of(scope: Construct): CrossRegionReferenceProvider {
+    const stack = Stack.of(scope);
+    const existing = stack.node.tryFindChild("Cross Region References");
+    return existing instanceof CrossRegionReferenceProvider
+      ? existing
+      : new CrossRegionReferenceProvider(stack, "Cross Region References");
+  }
+
+  readonly fn: Function;
+  readonly serviceToken: string;
+
+  constructor(scope: Construct, name: string) {
+    super(scope, name);
+    this.fn = new Function(this, "Cross Region Reference Function", {
+      runtime: Runtime.NODEJS_18_X,
+      handler: "index.handler",
+      code: Code.fromAsset(path.join(__dirname, "..", "CrossRegionReferences")),
+      timeout: Duration.minutes(1),
+    });
+    const provider = new Provider(this, "Cross Region Reference Provider", {
+      onEventHandler: this.fn,
+    });
+    this.serviceToken = provider.serviceToken;
+    NagSuppressions.addResourceSuppressions(
+      provider,
+      [
+        {
+          id: "AwsSolutions-IAM5",
+          reason: "The provider invokes every version of the function",
+        },
+      ],
+      true
+    );
+  }
+}
+
+// Exports whose fingerprint is being taken, to catch references that lead back to themselves
+const fingerprinting = new Set<CrossRegionExport>();
+
+// SSM allows a parameter 50 tags, which the parameter's own tags and every import tag count towards
+const MAX_PARAMETER_TAGS = 50;
+
+/**
+ * The logical ids of the resources a resolved value is read from
+ *
+ * @param value - A value as resolved in its stack
+ */
+function referencedLogicalIds(value: unknown): string[] {
+  if (Array.isArray(value)) {
+    return ([] as string[]).concat(...value.map(referencedLogicalIds));
+  }
+  if (typeof value !== "object" || value === null) return [];
+  const {
+    Ref,
+    "Fn::GetAtt": getAtt,
+    ...rest
+  } = value as {
+    [key: string]: unknown;
+  };
+  const ids = [
+    ...(typeof Ref === "string" && !Ref.startsWith("AWS::") ? [Ref] : []),
+    ...(Array.isArray(getAtt) ? [getAtt[0] as string] : []),
+  ];
+  return ids.concat(referencedLogicalIds(Object.values(rest)));
+}
+
+/**
+ * A hash of the exported value, the resources it's read from and the export's version, which changes
+ * whenever the value is taken from elsewhere. Changes to the rest of the stack leave it alone
+ *
+ * @param exported - The export whose value is hashed
+ */
+function exportFingerprint(exported: CrossRegionExport): string {
+  const stack = Stack.of(exported);
+  if (fingerprinting.has(exported)) {
+    throw new Error(
+      `${exported.exportedName} is exported from a value that depends on its own import`
+    );
+  }
+  fingerprinting.add(exported);
+  const value = stack.resolve(exported.exportedValue);
+  const logicalIds = referencedLogicalIds(value);
+  const sources = stack.node
+    .findAll()
+    .filter(CfnResource.isCfnResource)
+    .map((resource) => ({
+      logicalId: stack.resolve(resource.logicalId),
+      type: resource.cfnResourceType,
+    }))
+    .filter(({ logicalId }) => logicalIds.includes(logicalId));
+  const fingerprint = createHash("sha256")
+    .update(JSON.stringify([value, sources, exported.exportVersion]))
+    .digest("hex");
+  fingerprinting.delete(exported);
+  return fingerprint;
+}
+
+interface CrossRegionExportProps {
+  parameterName: string;
+  stringValue: string;
+  // Changing it has every import read the parameter again, for when a resource the value is read
+  // from is replaced under the same logical id
+  version?: string;
+}
+
+/**
+ * A parameter read by stacks in other regions through a CrossRegionImport. Like an export within a
+ * region it can't be removed or renamed while it is imported, which each import records by tagging
+ * the parameter with the stack reading it and the version it read
+ */
+export class CrossRegionExport extends StringParameter {
+  /**
+   * Find the export of a parameter among the app's stacks
+   *
+   * @param scope - Any construct within the app
+   * @param parameterName - The name of the exported parameter
+   * @param region - The region the parameter is exported from
+   */
+  static find(
+    scope: Construct,
+    parameterName: string,
+    region: string
+  ): CrossRegionExport {
+    const found = scope.node.root.node
+      .findAll()
+      .find(
+        (construct): construct is CrossRegionExport =>
+          construct instanceof CrossRegionExport &&
+          construct.exportedName === parameterName &&
+          Stack.of(construct).region === region
+      );
+    if (found === undefined) {
+      throw new Error(
+        `No stack in the app exports ${parameterName} from ${region}`
+      );
+    }
+    return found;
+  }
+
+  readonly exportedName: string;
+  readonly exportedValue: string;
+  readonly exportVersion?: string;
+
+  constructor(scope: Construct, name: string, props: CrossRegionExportProps) {
+    const { version, ...parameterProps } = props;
+    super(scope, name, parameterProps);
+    this.exportedName = props.parameterName;
+    this.exportedValue = props.stringValue;
+    this.exportVersion = version;
+
+    const provider = CrossRegionReferenceProvider.of(this);
+    provider.fn.addToRolePolicy(
+      new PolicyStatement({
+        actions: ["ssm:ListTagsForResource"],
+        resources: [this.parameterArn],
+      })
+    );
+    // Referring to the parameter means it is deleted after the guard, which first checks for imports
+    new CustomResource(this, "Export Guard", {
+      serviceToken: provider.serviceToken,
+      resourceType: "Custom::CrossRegionExport",
+      properties: { ParameterName: this.parameterName },
+    });
+    // Every import tags the parameter, so there can't be more of them than the tags it has left
+    this.node.addValidation({ validate: () => this.checkImports() });
+  }
+
+  /** A hash of the exported value and its source, which changes whenever the value might have */
+  get fingerprint(): string {
+    return exportFingerprint(this);
+  }
+
+  private checkImports(): string[] {
+    const { region } = Stack.of(this);
+    const imports = this.node.root.node
+      .findAll()
+      .filter(
+        (construct) =>
+          construct instanceof CrossRegionImport &&
+          construct.parameterName === this.exportedName &&
+          construct.region === region
+      );
+    const ownTags = (this.node.defaultChild as CfnParameter).tags.tagValues();
+    const spare = MAX_PARAMETER_TAGS - Object.keys(ownTags).length;
+    return imports.length > spare
+      ? [
+          `${this.exportedName} is imported ${imports.length} times, but its tags leave room to record only ${spare} imports`,
+        ]
+      : [];
+  }
+}
+
+interface CrossRegionImportProps {
+  parameterName: string;
+  region: string;
+  // When the parameter is in another account, the role to assume there to read it
+  assumedRoleArn?: string;
+}
+
+/**
+ * Reads a CrossRegionExport's parameter from another region. The parameter is read again whenever
+ * the exported value, the resources it comes from or the export's version change, and tagged with this
+ * stack so the export can't be removed first
+ */
+export class CrossRegionImport extends Construct {
+  readonly parameterName: string;
+  readonly region: string;
+  private readonly resource: CustomResource;
+
+  constructor(scope: Construct, name: string, props: CrossRegionImportProps) {
+    super(scope, name);
+    const { parameterName, region, assumedRoleArn } = props;
+    this.parameterName = parameterName;
+    this.region = region;
+    const stack = Stack.of(this);
+
+    const provider = CrossRegionReferenceProvider.of(this);
+    provider.fn.addToRolePolicy(
+      assumedRoleArn
+        ? new PolicyStatement({
+            actions: ["sts:AssumeRole"],
+            resources: [assumedRoleArn],
+          })
+        : new PolicyStatement({
+            actions: [
+              "ssm:GetParameter",
+              "ssm:AddTagsToResource",
+              "ssm:RemoveTagsFromResource",
+            ],
+            resources: [
+              `arn:aws:ssm:${region}:${stack.account}:parameter/${parameterName}`,
+            ],
+          })
+    );
+    this.resource = new CustomResource(this, "Import", {
+      serviceToken: provider.serviceToken,
+      resourceType: "Custom::CrossRegionImport",
+      properties: {
+        ParameterName: parameterName,
+        Region: region,
+        RoleArn: assumedRoleArn,
+        ImportId: this.node.addr,
+        ImportedBy: `${stack.stackName}/${stack.region}`,
+        ExportFingerprint: Lazy.string({
+          produce: () =>
+            CrossRegionExport.find(this, parameterName, region).fingerprint,
+        }),
+      },
+    });
+  }
+
+  /** The parameter's value as of the last read */
+  get value(): string {
+    return this.resource.getAttString("Value");
+  }
+
+  /** The version of the parameter that was last read */
+  get version(): string {
+    return this.resource.getAttString("Version");
+  }
+}
@@ -0,0 +1,75 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+import { CustomResource, Duration, Stack } from "aws-cdk-lib";
+import { PolicyStatement } from "aws-cdk-lib/aws-iam";
+import { Code, Function, Runtime } from "aws-cdk-lib/aws-lambda";
+import { Provider } from "aws-cdk-lib/custom-resources";
+import { NagSuppressions } from "cdk-nag";
+import { Construct } from "constructs";
+import path = require("path");
+
+// Where the stacks needing enhanced scanning claim the registry. It's shared by every deployment in
+// the region, so unlike most parameters it isn't named after the deployment
+const CLAIMS_PATH = "/dask-registry-scanning";
+
+/**
+ * Turns on enhanced scanning for the region's registry so inspector scans the dask image. Each stack
+ * claims the registry's scanning, and whatever scanning it had before the first claim is only put
+ * back once the last of them is deleted
+ */
+export class EnableRegistryScanning extends Construct {
+  constructor(scope: Construct, name: string) {
+    super(scope, name);
+    const { region, account } = Stack.of(this);
+
+    const fn = new Function(this, "Registry Scanning Function", {
+      runtime: Runtime.NODEJS_18_X,
+      handler: "index.handler",
+      code: Code.fromAsset(path.join(__dirname, "..", "RegistryScanning")),
+      timeout: Duration.minutes(1),
+      initialPolicy: [
+        new PolicyStatement({
+          actions: [
+            "ecr:GetRegistryScanningConfiguration",
+            "ecr:PutRegistryScanningConfiguration",
+            "inspector2:Enable",
+            "iam:CreateServiceLinkedRole",
+          ],
+          resources: ["*"],
+        }),
+        new PolicyStatement({
+          actions: [
+            "ssm:GetParameter",
+            "ssm:GetParametersByPath",
+            "ssm:PutParameter",
+            "ssm:DeleteParameter",
+          ],
+          resources: [
+            `arn:aws:ssm:${region}:${account}:parameter${CLAIMS_PATH}/*`,
+          ],
+        }),
+      ],
+    });
+    const provider = new Provider(this, "Registry Scanning Provider", {
+      onEventHandler: fn,
+    });
+    new CustomResource(this, "Registry Scanning", {
+      serviceToken: provider.serviceToken,
+      resourceType: "Custom::RegistryScanning",
+      properties: { ScanType: "ENHANCED", ClaimsPath: CLAIMS_PATH },
+    });
+
+    NagSuppressions.addResourceSuppressions(
+      [fn, provider],
+      [
+        {
+          id: "AwsSolutions-IAM5",
+          reason:
+            "The registry's scanning configuration and inspector have no resource, the claims are found by their path, and the provider invokes every version of the function",
+        },
+      ],
+      true
+    );
+  }
+}
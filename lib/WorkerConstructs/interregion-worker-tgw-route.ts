@@ -10,8 +10,10 @@ import {
 } from "aws-cdk-lib/aws-ec2";
 import { NagSuppressions } from "cdk-nag";
 import { IWorker } from "../../bin/interface";
-import { SSMParameterReader } from "../SdkConstructs/ssm-param-reader";
+import { CrossRegionImport } from "../SdkConstructs/cross-region-reference";
 import { TransitGatewayRouteTable } from "../SdkConstructs/default-transit-route-table-id";
+import { crossAccountRoleArn } from "../SdkConstructs/cross-account-role";
+import { deploymentName } from "../deployment-name";
 
 export interface ClientRegionProps extends StackProps {
   peerWorker: IWorker;
@@ -65,15 +67,18 @@ export class InterRegionTransitGatewayRoute extends Stack {
     );
 
     // Pull the attachment ID of the peering connection
-    const transitGatewayAttachmentId = new SSMParameterReader(
+    const transitGatewayAttachmentId = new CrossRegionImport(
       this,
       `Transit Attachment ID - ${this.region}`,
       {
-        parameterName: `tgw-attachmentid-${peerWorker.region}-${this.region}`,
+        parameterName: deploymentName(
+          this,
+          `tgw-attachmentid-${peerWorker.region}-${this.region}`
+        ),
         region: peerWorker.region,
-        account: this.account,
+        assumedRoleArn: crossAccountRoleArn(this, peerWorker),
       }
-    ).getParameterValue();
+    ).value;
 
     // Append the route to the transit gateway route table
     new CfnTransitGatewayRoute(this, `TGW Route`, {
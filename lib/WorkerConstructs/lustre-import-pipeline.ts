@@ -0,0 +1,494 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+import { Duration, RemovalPolicy, Stack } from "aws-cdk-lib";
+import { IAutoScalingGroup } from "aws-cdk-lib/aws-autoscaling";
+import {
+  Alarm,
+  ComparisonOperator,
+  MathExpression,
+  Stats,
+  TreatMissingData,
+} from "aws-cdk-lib/aws-cloudwatch";
+import { SnsAction } from "aws-cdk-lib/aws-cloudwatch-actions";
+import { Rule, Schedule } from "aws-cdk-lib/aws-events";
+import { SfnStateMachine } from "aws-cdk-lib/aws-events-targets";
+import {
+  AnyPrincipal,
+  PolicyStatement,
+  ServicePrincipal,
+} from "aws-cdk-lib/aws-iam";
+import { IKey } from "aws-cdk-lib/aws-kms";
+import { LogGroup, RetentionDays } from "aws-cdk-lib/aws-logs";
+import { ITopic } from "aws-cdk-lib/aws-sns";
+import { Queue, QueueEncryption } from "aws-cdk-lib/aws-sqs";
+import {
+  Choice,
+  Condition,
+  DefinitionBody,
+  Fail,
+  IChainable,
+  JsonPath,
+  LogLevel,
+  StateMachine,
+  Succeed,
+  TaskInput,
+  TaskStateBase,
+  Wait,
+  WaitTime,
+} from "aws-cdk-lib/aws-stepfunctions";
+import {
+  CallAwsService,
+  LambdaInvoke,
+  SnsPublish,
+} from "aws-cdk-lib/aws-stepfunctions-tasks";
+import {
+  AwsCustomResource,
+  AwsCustomResourcePolicy,
+} from "aws-cdk-lib/custom-resources";
+import { NagSuppressions } from "cdk-nag";
+import { Construct } from "constructs";
+import { IWorker } from "../../bin/interface";
+import { defaultLustreProfile, lustreProfile } from "../../bin/lustre";
+import { secureBucket } from "../ClientConstructs/secure-bucket";
+import { deploymentName } from "../deployment-name";
+import { LustreIndexer } from "./lustre-indexer";
+
+interface LustreImportPipelineProps {
+  worker: IWorker;
+  fileSystemId: string;
+  // The function that syncs each dataset's index, or the instance that rebuilds them through Run Command
+  indexer: LustreIndexer | IAutoScalingGroup;
+  // Where the outcome of each run is published
+  topic: ITopic;
+  topicKey: IKey;
+}
+
+/**
+ * Imports each dataset's metadata into lustre, waits for the data repository task to finish and then
+ * brings the datasets' OpenSearch indexes up to date, publishing whether it worked to the updates topic. It runs on the
+ * worker's refresh schedule and once when it is first deployed. A SCRATCH_2 file system has nothing
+ * to import, and a worker can turn the import off to rely on automatic imports, so their pipelines
+ * only index. The topic is also alarmed when a run fails, when the schedule can't start one, or when
+ * none has succeeded for the worker's refreshAlarmHours
+ */
+export class LustreImportPipeline extends Construct {
+  /**
+   * The state machine's name is fixed per region so the client's dashboard can chart its runs
+   *
+   * @param scope - Any construct within the app, used to resolve the deployment identifier
+   * @param region - The worker region
+   */
+  static stateMachineNameFor(scope: Construct, region: string): string {
+    return deploymentName(scope, `dask-lustre-import-${region}`);
+  }
+
+  /**
+   * @param scope - Any construct within the app, used to resolve the deployment identifier
+   * @param account - The account the worker region sits in
+   * @param region - The worker region
+   */
+  static arnFor(scope: Construct, account: string, region: string): string {
+    return `arn:aws:states:${region}:${account}:stateMachine:${LustreImportPipeline.stateMachineNameFor(
+      scope,
+      region
+    )}`;
+  }
+
+  readonly stateMachine: StateMachine;
+
+  constructor(
+    scope: Construct,
+    name: string,
+    props: LustreImportPipelineProps
+  ) {
+    super(scope, name);
+    const { worker, fileSystemId, indexer, topic, topicKey } = props;
+    const { region } = Stack.of(this);
+    const profile = lustreProfile(worker);
+    const importing =
+      profile.deploymentType !== "SCRATCH_2" &&
+      profile.refreshSchedule !== "none";
+
+    const failed = new SnsPublish(this, "Publish Failure", {
+      topic,
+      subject: `Lustre import and indexing failed in ${region}`,
+      message: TaskInput.fromJsonPathAt("$"),
+    }).next(new Fail(this, "Failed"));
+    const succeeded = new SnsPublish(this, "Publish Success", {
+      topic,
+      subject: `Lustre import and indexing finished in ${region}`,
+      message: TaskInput.fromJsonPathAt("$"),
+    }).next(new Succeed(this, "Done"));
+
+    const index =
+      indexer instanceof LustreIndexer
+        ? this.syncSteps(indexer, succeeded, failed)
+        : this.indexSteps(indexer, succeeded, failed);
+    const definition = !importing
+      ? index
+      : this.importSteps(worker, fileSystemId, index, failed);
+
+    this.stateMachine = new StateMachine(this, "State Machine", {
+      stateMachineName: LustreImportPipeline.stateMachineNameFor(this, region),
+      definitionBody: DefinitionBody.fromChainable(definition),
+      timeout: Duration.hours(12),
+      tracingEnabled: true,
+      logs: {
+        destination: new LogGroup(this, "Logs", {
+          retention: RetentionDays.ONE_MONTH,
+          removalPolicy: RemovalPolicy.DESTROY,
+        }),
+        level: LogLevel.ALL,
+      },
+    });
+    topicKey.grant(this.stateMachine, "kms:Decrypt", "kms:GenerateDataKey*");
+    NagSuppressions.addResourceSuppressions(
+      this.stateMachine,
+      [
+        {
+          id: "AwsSolutions-IAM5",
+          reason:
+            "Tasks and commands are named as they are created, and X-Ray and log delivery don't take a resource",
+        },
+      ],
+      true
+    );
+
+    // After launch the rule below starts the pipeline, every day at midnight unless the worker has its
+    // own schedule. Without an import it still indexes nightly. Starts that still fail after
+    // EventBridge's retries are kept in the dead letter queue along with why
+    const deadLetters = new Queue(this, "Schedule Dead Letters", {
+      encryption: QueueEncryption.SQS_MANAGED,
+      enforceSSL: true,
+      retentionPeriod: Duration.days(14),
+    });
+    new Rule(this, "Schedule Rule", {
+      schedule: Schedule.expression(
+        importing
+          ? profile.refreshSchedule
+          : defaultLustreProfile.refreshSchedule
+      ),
+      targets: [
+        new SfnStateMachine(this.stateMachine, {
+          retryAttempts: 10,
+          maxEventAge: Duration.hours(6),
+          deadLetterQueue: deadLetters,
+        }),
+      ],
+    });
+    NagSuppressions.addResourceSuppressions(deadLetters, [
+      {
+        id: "AwsSolutions-SQS3",
+        reason: "The queue is itself the schedule's dead letter queue",
+      },
+    ]);
+
+    this.setupAlarms(profile.refreshAlarmHours, deadLetters, topic, topicKey);
+
+    // On the first launch we would like to import and index immediately. The worker stack has linked
+    // the datasets by the time this one deploys
+    new AwsCustomResource(this, "Start Now", {
+      onCreate: {
+        service: "StepFunctions",
+        action: "startExecution",
+        physicalResourceId: { id: "startLustreImportPipeline" },
+        parameters: {
+          stateMachineArn: this.stateMachine.stateMachineArn,
+        },
+      },
+      policy: AwsCustomResourcePolicy.fromStatements([
+        new PolicyStatement({
+          actions: ["states:StartExecution"],
+          resources: [this.stateMachine.stateMachineArn],
+        }),
+      ]),
+    });
+  }
+
+  /**
+   * Alarms the topic when a run ends without succeeding, when no run has succeeded for the given
+   * hours, which also catches runs that never started, and when the schedule gives up starting one
+   */
+  private setupAlarms(
+    hours: number,
+    deadLetters: Queue,
+    topic: ITopic,
+    topicKey: IKey
+  ) {
+    // CloudWatch publishes to the topic under its key
+    topicKey.grant(
+      new ServicePrincipal("cloudwatch.amazonaws.com"),
+      "kms:Decrypt",
+      "kms:GenerateDataKey*"
+    );
+    const period = Duration.minutes(5);
+    const alarms = [
+      new Alarm(this, "Run Failed Alarm", {
+        alarmDescription:
+          "A lustre import and indexing run failed, timed out or was aborted",
+        // Each series is missing for any period without that outcome, which would blank the whole sum
+        metric: new MathExpression({
+          expression: "FILL(failed, 0) + FILL(timedOut, 0) + FILL(aborted, 0)",
+          usingMetrics: {
+            failed: this.stateMachine.metricFailed({ period }),
+            timedOut: this.stateMachine.metricTimedOut({ period }),
+            aborted: this.stateMachine.metricAborted({ period }),
+          },
+          period,
+        }),
+        threshold: 1,
+        evaluationPeriods: 1,
+        comparisonOperator:
+          ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+        treatMissingData: TreatMissingData.NOT_BREACHING,
+      }),
+      // Every hour without a success counts against the window, including hours without any run
+      new Alarm(this, "No Recent Success Alarm", {
+        alarmDescription: `No lustre import and indexing run has succeeded in ${hours} hours`,
+        metric: this.stateMachine.metricSucceeded({
+          period: Duration.hours(1),
+          statistic: Stats.SUM,
+        }),
+        threshold: 1,
+        evaluationPeriods: hours,
+        datapointsToAlarm: hours,
+        comparisonOperator: ComparisonOperator.LESS_THAN_THRESHOLD,
+        treatMissingData: TreatMissingData.BREACHING,
+      }),
+      new Alarm(this, "Schedule Dead Letter Alarm", {
+        alarmDescription:
+          "The schedule couldn't start a lustre import and indexing run",
+        metric: deadLetters.metricApproximateNumberOfMessagesVisible({
+          period,
+          statistic: Stats.MAXIMUM,
+        }),
+        threshold: 1,
+        evaluationPeriods: 1,
+        comparisonOperator:
+          ComparisonOperator.GREATER_THAN_OR_EQUAL_TO_THRESHOLD,
+        treatMissingData: TreatMissingData.NOT_BREACHING,
+      }),
+    ];
+    const notify = new SnsAction(topic);
+    alarms.forEach((alarm) => {
+      alarm.addAlarmAction(notify);
+      alarm.addOkAction(notify);
+    });
+  }
+
+  /**
+   * Starts a full metadata import of every dataset with a report of the files that failed, then polls
+   * the task until it ends
+   */
+  private importSteps(
+    worker: IWorker,
+    fileSystemId: string,
+    next: IChainable,
+    failed: IChainable
+  ): IChainable {
+    const { region, account } = Stack.of(this);
+    // FSx writes the reports with the file system's service linked role for s3
+    const reports = secureBucket(
+      Stack.of(this),
+      "Import Reports",
+      secureBucket(Stack.of(this), "Import Reports Access Logs"),
+      new PolicyStatement({
+        principals: [new AnyPrincipal()],
+        actions: ["s3:PutObject", "s3:GetBucketAcl"],
+        conditions: {
+          ArnLike: {
+            "aws:PrincipalArn": `arn:aws:iam::${account}:role/aws-service-role/s3.data-source.lustre.fsx.amazonaws.com/*`,
+          },
+        },
+      })
+    );
+
+    const start = new CallAwsService(this, "Import Datasets", {
+      service: "fsx",
+      action: "createDataRepositoryTask",
+      parameters: {
+        FileSystemId: fileSystemId,
+        Type: "IMPORT_METADATA_FROM_REPOSITORY",
+        // Task paths are relative to the root of the file system
+        Paths: worker.datasets.map(
+          ({ lustreFileSystemPath }) => `${region}/${lustreFileSystemPath}`
+        ),
+        Report: {
+          Enabled: true,
+          Path: reports.s3UrlForObject(region),
+          Format: "REPORT_CSV_20191124",
+          Scope: "FAILED_FILES_ONLY",
+        },
+      },
+      iamResources: [
+        `arn:aws:fsx:${region}:${account}:file-system/${fileSystemId}`,
+        `arn:aws:fsx:${region}:${account}:task/*`,
+      ],
+      resultSelector: {
+        TaskId: JsonPath.stringAt("$.DataRepositoryTask.TaskId"),
+      },
+      resultPath: "$.import",
+    });
+    // Only one data repository task runs on a file system at a time
+    start.addRetry({
+      errors: ["Fsx.DataRepositoryTaskExecutingException"],
+      interval: Duration.minutes(5),
+      maxAttempts: 6,
+      backoffRate: 1,
+    });
+
+    const describe = new CallAwsService(this, "Describe Import", {
+      service: "fsx",
+      action: "describeDataRepositoryTasks",
+      parameters: {
+        TaskIds: JsonPath.array(JsonPath.stringAt("$.import.TaskId")),
+      },
+      iamResources: [`arn:aws:fsx:${region}:${account}:task/*`],
+      resultSelector: {
+        Lifecycle: JsonPath.stringAt("$.DataRepositoryTasks[0].Lifecycle"),
+      },
+      resultPath: "$.import.status",
+    });
+    const wait = new Wait(this, "Wait For Import", {
+      time: WaitTime.duration(Duration.minutes(1)),
+    });
+    this.retryThrottles([start, describe], "Fsx.ThrottlingException");
+    this.catchInto([start, describe], failed);
+
+    return start
+      .next(wait)
+      .next(describe)
+      .next(
+        new Choice(this, "Import Finished?")
+          .when(
+            Condition.stringEquals("$.import.status.Lifecycle", "SUCCEEDED"),
+            next
+          )
+          .when(
+            Condition.or(
+              Condition.stringEquals("$.import.status.Lifecycle", "FAILED"),
+              Condition.stringEquals("$.import.status.Lifecycle", "CANCELED")
+            ),
+            failed
+          )
+          .otherwise(wait)
+      );
+  }
+
+  /**
+   * Invokes the indexer until it has synced every dataset, each call carrying on from the watermarks
+   * the last one left. The run's start time tells the indexer which run the watermarks belong to
+   */
+  private syncSteps(
+    indexer: LustreIndexer,
+    succeeded: IChainable,
+    failed: IChainable
+  ): IChainable {
+    const sync = new LambdaInvoke(this, "Sync Datasets", {
+      lambdaFunction: indexer.fn,
+      payload: TaskInput.fromObject({
+        runId: JsonPath.stringAt("$$.Execution.StartTime"),
+      }),
+      resultSelector: {
+        Done: JsonPath.stringAt("$.Payload.done"),
+        Datasets: JsonPath.objectAt("$.Payload.datasets"),
+      },
+      resultPath: "$.index",
+    });
+    this.retryThrottles([sync], "Lambda.TooManyRequestsException");
+    this.catchInto([sync], failed);
+
+    return sync.next(
+      new Choice(this, "Sync Finished?")
+        .when(Condition.booleanEquals("$.index.Done", true), succeeded)
+        .otherwise(sync)
+    );
+  }
+
+  /**
+   * Runs the indexing script on the indexer instance through Run Command, then polls the command
+   * until it ends
+   */
+  private indexSteps(
+    indexer: IAutoScalingGroup,
+    succeeded: IChainable,
+    failed: IChainable
+  ): IChainable {
+    const { region, account } = Stack.of(this);
+    const send = new CallAwsService(this, "Index Datasets", {
+      service: "ssm",
+      action: "sendCommand",
+      parameters: {
+        DocumentName: "AWS-RunShellScript",
+        Targets: [
+          {
+            Key: "tag:aws:autoscaling:groupName",
+            Values: [indexer.autoScalingGroupName],
+          },
+        ],
+        // The scan can take hours on a large dataset
+        Parameters: {
+          commands: ["bash /triggerScan.sh"],
+          executionTimeout: ["36000"],
+        },
+      },
+      iamResources: [
+        `arn:aws:ssm:${region}::document/AWS-RunShellScript`,
+        `arn:aws:ec2:${region}:${account}:instance/*`,
+      ],
+      resultSelector: { CommandId: JsonPath.stringAt("$.Command.CommandId") },
+      resultPath: "$.index",
+    });
+    const list = new CallAwsService(this, "Describe Indexing", {
+      service: "ssm",
+      action: "listCommands",
+      parameters: { CommandId: JsonPath.stringAt("$.index.CommandId") },
+      iamResources: ["*"],
+      resultSelector: { Status: JsonPath.stringAt("$.Commands[0].Status") },
+      resultPath: "$.index.status",
+    });
+    const wait = new Wait(this, "Wait For Indexing", {
+      time: WaitTime.duration(Duration.minutes(1)),
+    });
+    this.retryThrottles([send, list], "Ssm.ThrottlingException");
+    this.catchInto([send, list], failed);
+
+    return send
+      .next(wait)
+      .next(list)
+      .next(
+        new Choice(this, "Indexing Finished?")
+          .when(
+            Condition.stringEquals("$.index.status.Status", "Success"),
+            succeeded
+          )
+          .when(
+            Condition.or(
+              Condition.stringEquals("$.index.status.Status", "Failed"),
+              Condition.stringEquals("$.index.status.Status", "Cancelled"),
+              Condition.stringEquals("$.index.status.Status", "TimedOut")
+            ),
+            failed
+          )
+          .otherwise(wait)
+      );
+  }
+
+  // Throttled calls are tried again with a backoff rather than failing the run
+  private retryThrottles(tasks: TaskStateBase[], error: string) {
+    tasks.forEach((task) =>
+      task.addRetry({
+        errors: [error],
+        interval: Duration.seconds(10),
+        maxAttempts: 5,
+        backoffRate: 2,
+      })
+    );
+  }
+
+  // Any error calling a service ends the run as failed, keeping the input so the message says where
+  private catchInto(tasks: TaskStateBase[], failed: IChainable) {
+    tasks.forEach((task) => task.addCatch(failed, { resultPath: "$.error" }));
+  }
+}
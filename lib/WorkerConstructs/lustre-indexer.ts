@@ -0,0 +1,126 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+import { Duration, RemovalPolicy, Stack } from "aws-cdk-lib";
+import { AttributeType, BillingMode, Table } from "aws-cdk-lib/aws-dynamodb";
+import { IVpc } from "aws-cdk-lib/aws-ec2";
+import { Platform } from "aws-cdk-lib/aws-ecr-assets";
+import { CfnRole, PolicyStatement } from "aws-cdk-lib/aws-iam";
+import {
+  DockerImageCode,
+  DockerImageFunction,
+  Function,
+} from "aws-cdk-lib/aws-lambda";
+import { NagSuppressions } from "cdk-nag";
+import { Construct } from "constructs";
+import { IWorker } from "../../bin/interface";
+import { indexerRoleName } from "../opensearch-access";
+import path = require("path");
+
+interface LustreIndexerProps {
+  worker: IWorker;
+  // The worker VPC, which reaches the client's OpenSearch domain over the transit gateway
+  vpc: IVpc;
+  openSearchArn: string;
+  openSearchDomain: string;
+  clientRegion: string;
+}
+
+/**
+ * Brings each dataset's OpenSearch index up to date with the dataset, writing only what has changed
+ * since the last run and removing the files that are gone. Lustre mirrors the datasets' buckets, so
+ * the function lists the buckets rather than mounting lustre, and records how far each index has been
+ * synced in a watermark table
+ */
+export class LustreIndexer extends Construct {
+  readonly fn: Function;
+
+  constructor(scope: Construct, name: string, props: LustreIndexerProps) {
+    super(scope, name);
+    const { worker, vpc, openSearchArn, openSearchDomain, clientRegion } =
+      props;
+    const { region } = Stack.of(this);
+
+    const watermarks = new Table(this, "Index Watermarks", {
+      partitionKey: { name: "index", type: AttributeType.STRING },
+      billingMode: BillingMode.PAY_PER_REQUEST,
+      pointInTimeRecovery: true,
+      removalPolicy: RemovalPolicy.DESTROY,
+    });
+
+    this.fn = new DockerImageFunction(this, "Lustre Indexer Function", {
+      code: DockerImageCode.fromImageAsset(
+        path.join(__dirname, "..", "LustreIndexer"),
+        { platform: Platform.LINUX_AMD64 }
+      ),
+      vpc,
+      memorySize: 1024,
+      timeout: Duration.minutes(15),
+      environment: {
+        // See the Dataset interface of lib/LustreIndexer/index.ts
+        Datasets: JSON.stringify(
+          worker.datasets.map(
+            ({ dataset, lustreFileSystemPath, indexName }) => {
+              const [, , bucket, ...prefix] = dataset
+                .replace(/\/$/, "")
+                .split("/");
+              return {
+                index: indexName,
+                bucket,
+                prefix: prefix.length > 0 ? `${prefix.join("/")}/` : "",
+                path: `/fsx/${region}/${lustreFileSystemPath}`,
+                source:
+                  worker.workerLaunchType === "FARGATE" ? dataset : undefined,
+              };
+            }
+          )
+        ),
+        OpenSearchHost: openSearchDomain,
+        OpenSearchRegion: clientRegion,
+        WatermarkTable: watermarks.tableName,
+      },
+      initialPolicy: [
+        new PolicyStatement({
+          actions: ["s3:ListBucket"],
+          resources: worker.datasets.map(
+            ({ dataset }) => `arn:aws:s3:::${dataset.split("/")[2]}`
+          ),
+        }),
+        new PolicyStatement({
+          actions: [
+            "es:ESHttpGet",
+            "es:ESHttpHead",
+            "es:ESHttpPut",
+            "es:ESHttpPost",
+            "es:ESHttpDelete",
+          ],
+          resources: [openSearchArn, `${openSearchArn}/*`],
+        }),
+      ],
+    });
+    watermarks.grantReadWriteData(this.fn);
+    // The client maps the role by its name when the domain has fine-grained access control
+    (this.fn.role?.node.defaultChild as CfnRole).roleName = indexerRoleName(
+      this,
+      region
+    );
+    NagSuppressions.addResourceSuppressions(
+      this.fn,
+      [
+        {
+          id: "AwsSolutions-IAM4",
+          reason:
+            "The managed policy lets the function create its network interfaces in the worker VPC",
+          appliesTo: [
+            "Policy::arn:<AWS::Partition>:iam::aws:policy/service-role/AWSLambdaVPCAccessExecutionRole",
+          ],
+        },
+        {
+          id: "AwsSolutions-IAM5",
+          reason: "Function needs access to push to all indicies",
+        },
+      ],
+      true
+    );
+  }
+}
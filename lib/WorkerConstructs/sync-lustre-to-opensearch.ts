@@ -10,14 +10,20 @@ import {
   Vpc,
 } from "aws-cdk-lib/aws-ec2";
 import { LustreFileSystem } from "aws-cdk-lib/aws-fsx";
-import { ManagedPolicy, PolicyStatement } from "aws-cdk-lib/aws-iam";
+import { CfnRole, ManagedPolicy, PolicyStatement } from "aws-cdk-lib/aws-iam";
 import { Key } from "aws-cdk-lib/aws-kms";
 import { Topic } from "aws-cdk-lib/aws-sns";
 import { StringParameter } from "aws-cdk-lib/aws-ssm";
 import { NagSuppressions } from "cdk-nag";
 import { readFileSync } from "fs";
 import { IClient, IWorker } from "../../bin/interface";
-import { SSMParameterReader } from "../SdkConstructs/ssm-param-reader";
+import { lustreMountPoint } from "../../bin/lustre";
+import { CrossRegionImport } from "../SdkConstructs/cross-region-reference";
+import { crossAccountRoleArn } from "../SdkConstructs/cross-account-role";
+import { deploymentName } from "../deployment-name";
+import { indexerRoleName } from "../opensearch-access";
+import { LustreImportPipeline } from "./lustre-import-pipeline";
+import { LustreIndexer } from "./lustre-indexer";
 import path = require("path");
 
 interface SyncLustreToOpenSearchProps extends StackProps {
@@ -60,13 +66,81 @@ export class SyncLustreToOpenSearch extends Stack {
     vpc: Vpc,
     lustre: LustreFileSystem
   ) {
-    // Creating a topic for best practise purposes which you could make use of downstream
+    // Creating a topic for best practise purposes which you could make use of downstream. It also hears
+    // how each import and indexing run went
+    const updatesKey = new Key(this, "ASG Updates Key", {
+      enableKeyRotation: true,
+    });
     const snsTopicForUpdates = new Topic(this, "SNS Updates Autoscaling", {
-      masterKey: new Key(this, "ASG Updates Key", {
-        enableKeyRotation: true,
-      }),
+      masterKey: updatesKey,
     });
 
+    // The arn and domain are loaded in for the client region opensearch domain, which may sit in
+    // another account
+    const clientRoleArn = crossAccountRoleArn(this, client);
+    const OpenSearchARN = new CrossRegionImport(this, "OpenSearchARN", {
+      parameterName: deploymentName(
+        this,
+        `client-opensearch-arn-${client.region}`
+      ),
+      region: client.region,
+      assumedRoleArn: clientRoleArn,
+    }).value;
+    const OpenSearchDomain = new CrossRegionImport(this, "OpenSearchDomain", {
+      parameterName: deploymentName(
+        this,
+        `client-opensearch-domain-${client.region}`
+      ),
+      region: client.region,
+      assumedRoleArn: clientRoleArn,
+    }).value;
+    const indexer =
+      worker.indexer === "EC2"
+        ? this.setupIndexerInstance(
+            client,
+            worker,
+            vpc,
+            lustre,
+            snsTopicForUpdates,
+            OpenSearchARN,
+            OpenSearchDomain
+          )
+        : new LustreIndexer(this, "Lustre Indexer", {
+            worker,
+            vpc,
+            openSearchArn: OpenSearchARN,
+            openSearchDomain: OpenSearchDomain,
+            clientRegion: client.region,
+          });
+
+    // Once each import of the datasets into lustre has finished, the indexer brings OpenSearch up to date
+    new LustreImportPipeline(this, "Lustre Import Pipeline", {
+      worker,
+      fileSystemId: lustre.fileSystemId,
+      indexer,
+      topic: snsTopicForUpdates,
+      topicKey: updatesKey,
+    });
+  }
+
+  /** Setup the Indexer Instance
+   *
+   * The EC2 indexer is an instance with lustre mounted, which rebuilds each dataset's index from
+   * every file under its path when the import pipeline runs it
+   *
+   * @param client - Object of the client containing pieces such as client region and cidr
+   * @param worker - Object of the worker containing pieces such as worker region, cidr and data
+   * @returns The group running the instance
+   */
+  setupIndexerInstance(
+    client: IClient,
+    worker: IWorker,
+    vpc: Vpc,
+    lustre: LustreFileSystem,
+    snsTopicForUpdates: Topic,
+    OpenSearchARN: string,
+    OpenSearchDomain: string
+  ): AutoScalingGroup {
     // This autoscaling group creates just one instance which will perform the updates to opensearch
     // Can be autoscaled to go up and down in the future
     const autoScalingGroup = new AutoScalingGroup(this, "AutoScaling Group", {
@@ -81,21 +155,10 @@ export class SyncLustreToOpenSearch extends Stack {
         },
       ],
     });
-    autoScalingGroup.addToRolePolicy(
-      new PolicyStatement({
-        actions: ["ssm:GetParameter"],
-        resources: [
-          `arn:aws:ssm:${client.region}:${this.account}:parameter/client-opensearch-domain-${client.region}`,
-        ],
-      })
-    );
 
-    // The arn is loaded in for the client region opensearch domain
-    const OpenSearchARN = new SSMParameterReader(this, "OpenSearchARN", {
-      parameterName: `client-opensearch-arn-${client.region}`,
-      region: client.region,
-      account: this.account,
-    }).getParameterValue();
+    // The client maps the role by its name when the domain has fine-grained access control
+    (autoScalingGroup.role.node.defaultChild as CfnRole).roleName =
+      indexerRoleName(this, this.region);
     autoScalingGroup.addToRolePolicy(
       new PolicyStatement({
         resources: [OpenSearchARN, `${OpenSearchARN}/*`],
@@ -124,8 +187,8 @@ export class SyncLustreToOpenSearch extends Stack {
       true
     );
 
-    // The two scripts below are loaded onto the ec2 instance and triggered each day to push to opensearch
-    // Currently it's doing a complete sync each time, but can be optimised into the future
+    // The two scripts below are loaded onto the ec2 instance and triggered by the import pipeline to push
+    // to opensearch. Currently it's doing a complete sync each time, but can be optimised into the future
     // And does not note deletions
     const trigger = readFileSync(
       path.join(__dirname, "..", "ScriptsToUpdateOpenSearch/triggerScan.sh"),
@@ -140,31 +203,56 @@ export class SyncLustreToOpenSearch extends Stack {
       { encoding: "utf8", flag: "r" }
     );
 
+    // The instance reads the domain from this region rather than the client's
+    new StringParameter(this, "OpenSearchDomainForEC2", {
+      parameterName: deploymentName(
+        this,
+        `opensearch-domain-for-dask-worker-${this.region}`
+      ),
+      stringValue: OpenSearchDomain,
+    }).grantRead(autoScalingGroup);
     new StringParameter(this, "ClientRegionForEC2", {
-      parameterName: `client-region-for-dask-worker-${this.region}`,
+      parameterName: deploymentName(
+        this,
+        `client-region-for-dask-worker-${this.region}`
+      ),
       stringValue: client.region,
     }).grantRead(autoScalingGroup);
-    new StringParameter(this, "WorkerDataProjectForEC2", {
-      parameterName: `worker-region-data-bucket-for-dask-worker-${this.region}`,
-      stringValue: worker.dataset.split("/")[2],
+    // Each dataset is indexed separately from its own path on the lustre mount. Fargate workers
+    // can't mount lustre, so their files are catalogued by their s3 uri instead
+    new StringParameter(this, "WorkerDatasetsForEC2", {
+      parameterName: deploymentName(
+        this,
+        `worker-region-datasets-for-dask-worker-${this.region}`
+      ),
+      stringValue: JSON.stringify(
+        worker.datasets.map(({ dataset, lustreFileSystemPath, indexName }) => ({
+          index: indexName,
+          bucket: dataset.split("/")[2],
+          path: `/fsx/${this.region}/${lustreFileSystemPath}`,
+          source: worker.workerLaunchType === "FARGATE" ? dataset : undefined,
+        }))
+      ),
     }).grantRead(autoScalingGroup);
 
-    // The userdata for this instance installs libraries, mounts lustre, and setups the sync job to
-    // opensearch to trigger daily at 1am which should give enough time for the eventrule triggered at
-    // midnight to finish
+    // A scratch file system is mounted where its one dataset would sit on a shared one
+    const mountPoint = lustreMountPoint(worker);
+    // The userdata for this instance installs libraries, mounts lustre, and indexes what is already there
     autoScalingGroup.addUserData(
       "amazon-linux-extras install -y lustre",
       "pip3 install opensearch-py boto3",
-      "mkdir -p /fsx",
-      `mount -t lustre ${lustre.dnsName}@tcp:/${lustre.mountName} /fsx -o flock`,
-      `echo ${lustre.dnsName}@tcp:/${lustre.mountName} /fsx lustre defaults,flock,_netdev,x-systemd.automount,x-systemd.requires=network.service 0 0 >> /etc/fstab`,
+      `mkdir -p ${mountPoint}`,
+      `mount -t lustre ${lustre.dnsName}@tcp:/${lustre.mountName} ${mountPoint} -o flock`,
+      `echo ${lustre.dnsName}@tcp:/${lustre.mountName} ${mountPoint} lustre defaults,flock,_netdev,x-systemd.automount,x-systemd.requires=network.service 0 0 >> /etc/fstab`,
       "echo mountDone",
+      // The script's parameters are namespaced by the deployment identifier, which is empty by default
+      `echo "${deploymentName(this, "")}" > /dask-parameter-prefix`,
       `echo "${trigger}" > /triggerScan.sh`,
       `echo "${script}" > /updateOpenSearch.py`,
-      'crontab -l | { cat; echo "0 1 * * * bash /triggerScan.sh"; } | crontab -',
       "echo runningSync",
       "bash /triggerScan.sh",
       "echo syncDone"
     );
+    return autoScalingGroup;
   }
 }
@@ -1,7 +1,28 @@
 // Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
 // SPDX-License-Identifier: MIT-0
 
-import { Stack, App, StackProps, RemovalPolicy, Duration } from "aws-cdk-lib";
+import {
+  Annotations,
+  Stack,
+  App,
+  StackProps,
+  RemovalPolicy,
+  Duration,
+} from "aws-cdk-lib";
+import {
+  AdjustmentType,
+  CfnScalableTarget,
+  ScalableTarget,
+  ServiceNamespace,
+  StepScalingAction,
+} from "aws-cdk-lib/aws-applicationautoscaling";
+import {
+  AutoScalingGroup,
+  GroupMetric,
+  GroupMetrics,
+  IAutoScalingGroup,
+  SpotAllocationStrategy,
+} from "aws-cdk-lib/aws-autoscaling";
 import {
   CfnRoute,
   CfnTransitGateway,
@@ -11,44 +32,118 @@ import {
   FlowLogTrafficType,
   InstanceType,
   IpAddresses,
+  LaunchTemplate,
   Peer,
   Port,
   SecurityGroup,
   SubnetType,
+  UserData,
   Vpc,
 } from "aws-cdk-lib/aws-ec2";
+import {
+  Alarm,
+  ComparisonOperator,
+  MathExpression,
+} from "aws-cdk-lib/aws-cloudwatch";
+import { ApplicationScalingAction } from "aws-cdk-lib/aws-cloudwatch-actions";
 import { DockerImageAsset, Platform } from "aws-cdk-lib/aws-ecr-assets";
 import {
   AsgCapacityProvider,
+  CapacityProviderStrategy,
   Cluster,
   ContainerImage,
   Ec2Service,
   Ec2TaskDefinition,
+  EcsOptimizedImage,
+  FargateService,
+  FargateTaskDefinition,
   LogDriver,
   NetworkMode,
 } from "aws-cdk-lib/aws-ecs";
-import { Rule, Schedule } from "aws-cdk-lib/aws-events";
-import { LambdaFunction } from "aws-cdk-lib/aws-events-targets";
-import { LustreDeploymentType, LustreFileSystem } from "aws-cdk-lib/aws-fsx";
-import { PolicyStatement } from "aws-cdk-lib/aws-iam";
-import { Code, Function, Runtime } from "aws-cdk-lib/aws-lambda";
+import {
+  CfnFileSystem,
+  LustreDataCompressionType,
+  LustreDeploymentType,
+  LustreFileSystem,
+} from "aws-cdk-lib/aws-fsx";
+import { PolicyStatement, Role, ServicePrincipal } from "aws-cdk-lib/aws-iam";
 import { LogGroup } from "aws-cdk-lib/aws-logs";
 import { Bucket } from "aws-cdk-lib/aws-s3";
-import { StringParameter } from "aws-cdk-lib/aws-ssm";
+import { Secret } from "aws-cdk-lib/aws-secretsmanager";
 import {
   AwsCustomResource,
   AwsCustomResourcePolicy,
+  AwsSdkCall,
+  PhysicalResourceId,
 } from "aws-cdk-lib/custom-resources";
 import { NagSuppressions } from "cdk-nag";
-import { IClient, IWorker } from "../../bin/interface";
+import { IClient, IWorker, TopologyMode } from "../../bin/interface";
+import {
+  computeProfile,
+  fargateTaskSize,
+  ResolvedComputeProfile,
+  uncheckedInstanceTypes,
+  WORKER_BASE_PORT,
+} from "../../bin/compute";
+import { lustreMountPoint, lustreProfile } from "../../bin/lustre";
 import { AcceptTGWRequestClient } from "../SdkConstructs/accept-tgw-request-client";
 import { CreateDataLinkRepoClient } from "../SdkConstructs/create-data-repo-link-lustre";
-import { SSMParameterReader } from "../SdkConstructs/ssm-param-reader";
+import {
+  CrossAccountRole,
+  crossAccountRoleArn,
+  trustedAccounts,
+} from "../SdkConstructs/cross-account-role";
+import {
+  CrossRegionExport,
+  CrossRegionImport,
+} from "../SdkConstructs/cross-region-reference";
+import { EnableRegistryScanning } from "../SdkConstructs/enable-registry-scanning";
+import { WorkerScalingApi } from "./worker-scaling-api";
+import { deploymentName } from "../deployment-name";
+import {
+  DASK_TLS_ENTRYPOINT,
+  DASK_TLS_OPTIONS,
+  daskTlsSecrets,
+  workerTlsParameterName,
+} from "../dask-tls";
+import { poolMetric, poolMetricsNamespace } from "../pool-metrics";
 import path = require("path");
 
 export interface WorkerRegionProps extends StackProps {
   client: IClient;
   worker: IWorker;
+  workers: IWorker[];
+  // Connects the workers to the scheduler over tls://
+  tls?: boolean;
+  // Defaults to mesh, whose routes to other worker regions are added by the peering stacks
+  mode?: TopologyMode;
+  // Opens the worker ports to the other worker regions
+  workerTransfers?: boolean;
+}
+
+// The capacity of the worker groups, charted by the client region's operations dashboard
+const WORKER_GROUP_METRICS = new GroupMetrics(
+  GroupMetric.DESIRED_CAPACITY,
+  GroupMetric.IN_SERVICE_INSTANCES
+);
+
+/**
+ * The steps from the pool's backlog to the number of tasks the service runs. Each task works through
+ * backlogPerTask of the backlog, with the steps doubling the tasks until they reach the maximum
+ *
+ * @param profile - The worker's compute profile
+ */
+function backlogScalingSteps(
+  profile: ResolvedComputeProfile
+): { lower: number; change: number }[] {
+  const tiers: number[] = [];
+  for (let tasks = 1; tasks < profile.maxTasks; tasks *= 2) tiers.push(tasks);
+  tiers.push(profile.maxTasks);
+  // A tier covers the backlog too big for the tier below it
+  return tiers.map((tasks, i) => ({
+    lower: i === 0 ? 1 : tiers[i - 1] * profile.backlogPerTask + 1,
+    change: tasks,
+  }));
 }
 
 /**
@@ -60,17 +155,33 @@ export class WorkerRegion extends Stack {
   public tgw: CfnTransitGateway;
   public attachmentID: CfnTransitGatewayPeeringAttachment;
   public lustre: LustreFileSystem;
+  // Where the worker instances mount lustre
+  lustreMountPoint: string;
+  public workerSecurityGroup: SecurityGroup;
   lustreBucket: Bucket;
-  RepoFn: Function;
-  dataLink: CreateDataLinkRepoClient;
+  dataLinks: CreateDataLinkRepoClient[];
 
   constructor(scope: App, id: string, props: WorkerRegionProps) {
     super(scope, id, props);
-    const { client, worker } = props;
+    const {
+      client,
+      worker,
+      workers,
+      tls = false,
+      mode = "mesh",
+      workerTransfers = false,
+    } = props;
 
-    this.setupEnvironment(client, worker);
+    this.setupEnvironment(client, worker, workers, mode);
     this.setupRegionalLustre(worker);
-    this.setupDaskWorkers(client);
+    this.setupDaskWorkers(
+      client,
+      worker,
+      tls,
+      workerTransfers
+        ? workers.filter(({ region }) => region !== this.region)
+        : []
+    );
 
     NagSuppressions.addStackSuppressions(this, [
       {
@@ -95,27 +206,50 @@ export class WorkerRegion extends Stack {
    *
    * @param client - Object of the client containing pieces such as client region and cidr
    * @param worker - Object of the worker containing pieces such as worker region, cidr and data
+   * @param workers - An array of all the worker regions, some of which may be in other accounts
+   * @param mode - How this region reaches the other worker regions
    */
-  setupEnvironment(client: IClient, worker: IWorker) {
+  setupEnvironment(
+    client: IClient,
+    worker: IWorker,
+    workers: IWorker[],
+    mode: TopologyMode
+  ) {
     // Create the tgw and save param
     this.tgw = new CfnTransitGateway(this, "TGW", {});
-    new StringParameter(this, `TGW Param - ${this.region}`, {
-      parameterName: `tgw-param-${this.region}`,
+    new CrossRegionExport(this, `TGW Param - ${this.region}`, {
+      parameterName: deploymentName(this, `tgw-param-${this.region}`),
       stringValue: this.tgw.ref,
     });
 
+    // The client and other workers in different accounts read this region's parameters and accept
+    // worker to worker peering through this role
+    const accounts = trustedAccounts(this, [client, ...workers]);
+    if (accounts.length > 0) {
+      new CrossAccountRole(this, "Cross Account Role", {
+        trustedAccounts: accounts,
+        parameterNames: [
+          deploymentName(this, `tgw-param-${this.region}`),
+          deploymentName(this, `tgw-attachmentid-${this.region}*`),
+        ],
+        metricNamespace: poolMetricsNamespace(this),
+      });
+    }
+    // Set when the client is deployed to another account
+    const clientRoleArn = crossAccountRoleArn(this, client);
+
     // Pull the id for peering
-    const peerTransitGatewayId = new SSMParameterReader(this, "TGW Param", {
-      parameterName: `tgw-param-${client.region}`,
+    const peerTransitGatewayId = new CrossRegionImport(this, "TGW Param", {
+      parameterName: deploymentName(this, `tgw-param-${client.region}`),
       region: client.region,
-      account: this.account,
-    }).getParameterValue();
+      assumedRoleArn: clientRoleArn,
+    }).value;
     // Establish a peering connection
     this.attachmentID = new CfnTransitGatewayPeeringAttachment(
       this,
       "Peering Connection",
       {
-        peerAccountId: this.account,
+        peerAccountId: client.account ?? this.account,
         peerRegion: client.region,
         peerTransitGatewayId,
         transitGatewayId: this.tgw.ref,
@@ -123,7 +257,7 @@ export class WorkerRegion extends Stack {
     );
     this.attachmentID.addDependsOn(this.tgw);
     // Accept once established the peering
-    this.acceptRequest(client);
+    this.acceptRequest(client, clientRoleArn);
 
     // Create the Worker VPC
     this.vpc = new Vpc(this, "Worker VPC", {
@@ -146,8 +280,8 @@ export class WorkerRegion extends Stack {
     }).addDependsOn(this.tgw);
 
     // Save this param as other regions will need it
-    new StringParameter(this, "TGW Attach Param", {
-      parameterName: `tgw-attachmentid-${this.region}`,
+    new CrossRegionExport(this, "TGW Attach Param", {
+      parameterName: deploymentName(this, `tgw-attachmentid-${this.region}`),
       stringValue: this.attachmentID.attrTransitGatewayAttachmentId,
     });
 
@@ -159,30 +293,92 @@ export class WorkerRegion extends Stack {
         transitGatewayId: this.tgw.ref,
       }).addDependsOn(this.attachmentID);
     }
+    // In hub mode the other worker regions are reached through the same tgw, by way of the client
+    if (mode === "hub") {
+      for (const peer of workers.filter(
+        ({ region }) => region !== this.region
+      )) {
+        for (let i = 0; i < this.vpc.privateSubnets.length; i++) {
+          new CfnRoute(
+            this,
+            `Subnet to TGW - ${this.vpc.privateSubnets[i]} - ${peer.region}`,
+            {
+              routeTableId: this.vpc.privateSubnets[i].routeTable.routeTableId,
+              destinationCidrBlock: peer.cidr,
+              transitGatewayId: this.tgw.ref,
+            }
+          ).addDependsOn(this.attachmentID);
+        }
+      }
+    }
 
     // Pull the namespace created in the client region
-    const HostedZoneId = new SSMParameterReader(this, "PrivateNP Param", {
-      parameterName: `privatenp-hostedid-param-${client.region}`,
+    const HostedZoneId = new CrossRegionImport(this, "PrivateNP Param", {
+      parameterName: deploymentName(
+        this,
+        `privatenp-hostedid-param-${client.region}`
+      ),
       region: client.region,
-      account: this.account,
-    }).getParameterValue();
-    // and make an sdk call to gain access to resolve that DNS in this space
+      assumedRoleArn: clientRoleArn,
+    }).value;
+    // A hosted zone in another account must first authorise the association of this VPC
+    const vpc = { VPCId: this.vpc.vpcId, VPCRegion: this.region };
+    const association = PhysicalResourceId.of(
+      `${HostedZoneId}:${this.vpc.vpcId}`
+    );
+    const authorization: AwsSdkCall = {
+      service: "Route53",
+      action: "createVPCAssociationAuthorization",
+      parameters: { HostedZoneId, VPC: vpc },
+      assumedRoleArn: clientRoleArn,
+      physicalResourceId: association,
+    };
+    const authoriseVPC = clientRoleArn
+      ? new AwsCustomResource(this, "AuthorizeVPCAssociation", {
+          onCreate: authorization,
+          onUpdate: authorization,
+          onDelete: {
+            ...authorization,
+            action: "deleteVPCAssociationAuthorization",
+            ignoreErrorCodesMatching: "VPCAssociationAuthorizationNotFound",
+          },
+          policy: AwsCustomResourcePolicy.fromStatements([
+            new PolicyStatement({
+              actions: ["sts:AssumeRole"],
+              resources: [clientRoleArn],
+            }),
+          ]),
+        })
+      : undefined;
+    // and make an sdk call to gain access to resolve that DNS in this space. A new zone or VPC is
+    // associated before the old pair is disassociated, so the workers never lose the scheduler
+    const associate: AwsSdkCall = {
+      service: "Route53",
+      action: "associateVPCWithHostedZone",
+      parameters: { HostedZoneId, VPC: vpc },
+      physicalResourceId: association,
+    };
     const associateVPC = new AwsCustomResource(
       this,
       "AssociateVPCWithHostedZone",
       {
-        onCreate: {
-          service: "Route53",
-          action: "associateVPCWithHostedZone",
-          parameters: {
-            HostedZoneId,
-            VPC: { VPCId: this.vpc.vpcId, VPCRegion: this.region },
-          },
-          physicalResourceId: { id: "associateVPCWithHostedZone" },
+        onCreate: associate,
+        // The pair is already associated when only the resource itself changed
+        onUpdate: {
+          ...associate,
+          ignoreErrorCodesMatching: "ConflictingDomainExists",
+        },
+        onDelete: {
+          ...associate,
+          action: "disassociateVPCFromHostedZone",
+          ignoreErrorCodesMatching: "VPCAssociationNotFound",
         },
         policy: AwsCustomResourcePolicy.fromStatements([
           new PolicyStatement({
-            actions: ["route53:AssociateVPCWithHostedZone"],
+            actions: [
+              "route53:AssociateVPCWithHostedZone",
+              "route53:DisassociateVPCFromHostedZone",
+            ],
             resources: [`arn:aws:route53:::hostedzone/${HostedZoneId}`],
           }),
           new PolicyStatement({
@@ -192,6 +388,7 @@ export class WorkerRegion extends Stack {
         ]),
       }
     );
+    if (authoriseVPC) associateVPC.node.addDependency(authoriseVPC);
     NagSuppressions.addResourceSuppressions(
       associateVPC,
       [
@@ -209,12 +406,14 @@ export class WorkerRegion extends Stack {
    * Make an sdk call that will accept the peering connection
    *
    * @param client - Object of the client containing pieces such as client region and cidr
+   * @param assumedRoleArn - The role to accept through when the client is in another account
    */
-  acceptRequest(client: IClient) {
+  acceptRequest(client: IClient, assumedRoleArn?: string) {
     new AcceptTGWRequestClient(this, "Accept Request", {
       attachmentId: this.attachmentID.attrTransitGatewayAttachmentId,
       region: client.region,
       account: this.account,
+      assumedRoleArn,
     });
   }
 
@@ -222,12 +421,25 @@ export class WorkerRegion extends Stack {
    *
    * Lustre is the middleware we use for rapid access to public s3 data. Lustre connects to the public
    * s3 data, loading it into the region so that the workers can work with the data as if it were a
-   * local filesystem
+   * local filesystem. Each dataset is linked to its own path on the one shared file system, apart
+   * from on a SCRATCH_2 file system which imports its single dataset as it is created
    *
    * @param worker - Object of the worker containing pieces such as worker region, cidr and data
    */
   setupRegionalLustre(worker: IWorker) {
-    // The lustre security group allows certain ports to mount to the ec2 instance
+    const profile = lustreProfile(worker);
+    const scratch = profile.deploymentType === "SCRATCH_2";
+    this.lustreMountPoint = lustreMountPoint(worker);
+    const vpcSubnet = this.vpc.privateSubnets[profile.subnetIndex];
+    if (vpcSubnet === undefined) {
+      throw new Error(
+        `lustre.subnetIndex ${profile.subnetIndex} is out of range, the ${this.region} VPC has ${this.vpc.privateSubnets.length} private subnets`
+      );
+    }
+
+    // The lustre security group allows certain ports to mount to the ec2 instance. Every deployment type
+    // serves on the same ports, and the instances mount it from any subnet of the VPC whichever one the
+    // file system sits in
     const secGroup = new SecurityGroup(this, "Lustre Security Group", {
       vpc: this.vpc,
     });
@@ -240,68 +452,64 @@ export class WorkerRegion extends Stack {
     // Using persistent 2 we must create the data link to the repo after it's created
     this.lustre = new LustreFileSystem(this, "Lustre File System", {
       lustreConfiguration: {
-        deploymentType: LustreDeploymentType.PERSISTENT_2,
-        perUnitStorageThroughput: 1000,
+        deploymentType: LustreDeploymentType[profile.deploymentType],
+        perUnitStorageThroughput: profile.perUnitStorageThroughput,
+        dataCompressionType:
+          profile.dataCompression === "LZ4"
+            ? LustreDataCompressionType.LZ4
+            : undefined,
+        importPath: scratch ? worker.datasets[0].dataset : undefined,
       },
-      storageCapacityGiB: 1200,
+      storageCapacityGiB: profile.storageCapacityGiB,
       vpc: this.vpc,
-      vpcSubnet: this.vpc.privateSubnets[0],
+      vpcSubnet,
       securityGroup: secGroup,
-      removalPolicy: RemovalPolicy.DESTROY,
-    });
-    // An SDK to have the data link create after the lustre filesystem has been called to be created
-    this.dataLink = new CreateDataLinkRepoClient(this, "DataRepoLustre", {
-      DataRepositoryPath: worker.dataset,
-      FileSystemId: this.lustre.fileSystemId,
-      FileSystemPath: `/${this.region}/${worker.lustreFileSystemPath}`,
-      region: this.region,
-      account: this.account,
+      removalPolicy: RemovalPolicy[profile.removalPolicy],
     });
+    // The file system construct doesn't take the backup settings yet
+    const fileSystem = this.lustre.node.defaultChild as CfnFileSystem;
+    if (profile.automaticBackupRetentionDays !== undefined) {
+      fileSystem.addPropertyOverride(
+        "LustreConfiguration.AutomaticBackupRetentionDays",
+        profile.automaticBackupRetentionDays
+      );
+    }
+    if (profile.dailyAutomaticBackupStartTime !== undefined) {
+      fileSystem.addPropertyOverride(
+        "LustreConfiguration.DailyAutomaticBackupStartTime",
+        profile.dailyAutomaticBackupStartTime
+      );
+    }
+    // A scratch file system can't be associated with buckets, its pipeline only indexes it
+    if (scratch) {
+      this.dataLinks = [];
+      return;
+    }
 
-    NagSuppressions.addResourceSuppressions(
-      this.dataLink,
-      [
-        {
-          id: "AwsSolutions-IAM5",
-          reason: "Needs a * on association Id",
-        },
-      ],
-      true
+    // An SDK to have the data link create after the lustre filesystem has been called to be created.
+    // Each link is named after its path, so adding, removing or reordering datasets leaves the others be
+    this.dataLinks = worker.datasets.map(
+      ({ dataset, lustreFileSystemPath, autoImport, autoExport }) =>
+        new CreateDataLinkRepoClient(
+          this,
+          `DataRepoLustre - ${lustreFileSystemPath
+            .replace(/\/+$/, "")
+            .replace(/[^A-Za-z0-9_.-]/g, "-")}`,
+          {
+            DataRepositoryPath: dataset,
+            FileSystemId: this.lustre.fileSystemId,
+            FileSystemPath: `/${this.region}/${lustreFileSystemPath}`,
+            AutoImportEvents: autoImport,
+            AutoExportEvents: autoExport,
+            region: this.region,
+            account: this.account,
+          }
+        )
     );
-    // We then create a function which when triggered on a scheduled basis will sync lustre to s3
-    this.RepoFn = new Function(this, "Scheduled Lustre Repo Refresh", {
-      runtime: Runtime.NODEJS_18_X,
-      handler: "index.handler",
-      code: Code.fromAsset(path.join(__dirname, "..", "LustreRepoTrigger")),
-      environment: {
-        FileSystemId: this.lustre.fileSystemId,
-      },
-      initialPolicy: [
-        new PolicyStatement({
-          resources: [
-            `arn:aws:fsx:${this.region}:${this.account}:file-system/${this.lustre.fileSystemId}`,
-            `arn:aws:fsx:${this.region}:${this.account}:task/*`,
-          ],
-          actions: ["fsx:CreateDataRepositoryTask"],
-        }),
-      ],
-    });
-    NagSuppressions.addResourceSuppressions(
-      this.RepoFn,
-      [
-        {
-          id: "AwsSolutions-IAM5",
-          reason:
-            "Function needs access to all task ids as they are dynamically created with uuid",
-        },
-      ],
-      true
-    );
-    // After launch the rule below will prompt lustre to sync with the s3 bucket every day at midnight
-    new Rule(this, "Schedule Rule", {
-      schedule: Schedule.cron({ minute: "0", hour: "0" }),
-      targets: [new LambdaFunction(this.RepoFn)],
-    });
+    // The file system only accepts one association change at a time, so link them one after another
+    for (let i = 1; i < this.dataLinks.length; i++) {
+      this.dataLinks[i].node.addDependency(this.dataLinks[i - 1]);
+    }
   }
 
   /** Setup the Dask Workers
@@ -317,92 +525,126 @@ export class WorkerRegion extends Stack {
    * Sometimes version mismatch can cause unexpected issues
    *
    * @param client - Object of the client containing pieces such as client region and cidr
+   * @param worker - Object of the worker, whose compute profile sizes the cluster and tasks
+   * @param tls - Runs the workers over tls:// with the worker certificate from the client region
+   * @param transferPeers - The other worker regions whose workers fetch data from these directly
    */
-  setupDaskWorkers(client: IClient) {
+  setupDaskWorkers(
+    client: IClient,
+    worker: IWorker,
+    tls: boolean,
+    transferPeers: IWorker[]
+  ) {
+    const profile = computeProfile(worker);
+    const fargate = worker.workerLaunchType === "FARGATE";
+    if (!fargate) {
+      uncheckedInstanceTypes(profile).forEach((instanceType) =>
+        Annotations.of(this).addWarning(
+          `The vCPUs, memory and network interfaces of ${instanceType} aren't known, so the compute profile wasn't checked against it. Set them in compute.instanceSpecs to have it checked`
+        )
+      );
+    }
     // Spin up the worker cluster. May need to increase your accounts quota for instances
     // beyond the account max
     const cluster = new Cluster(this, "Worker Cluster", {
-      clusterName: "Dask-Workers",
+      clusterName: deploymentName(this, "Dask-Workers"),
       containerInsights: true,
       vpc: this.vpc,
-      capacity: {
-        instanceType: new InstanceType("m5d.4xlarge"),
-        minCapacity: 0,
-        maxCapacity: 12,
-        vpcSubnets: {
-          subnetType: SubnetType.PRIVATE_WITH_EGRESS,
-        },
-      },
     });
-    NagSuppressions.addResourceSuppressions(
-      cluster.autoscalingGroup!,
-      [
-        {
-          id: "AwsSolutions-SNS2",
-          reason:
-            "SNS is a default asset created to which is not exposed publicly",
-        },
-        {
-          id: "AwsSolutions-SNS3",
-          reason:
-            "SNS is a default asset created to which is not exposed publicly",
-        },
-        {
-          id: "AwsSolutions-AS3",
-          reason:
-            "SNS is a default asset created to which is not exposed publicly",
-        },
-        {
-          id: "AwsSolutions-IAM5",
-          reason:
-            "Internally created service role generate by the cluster construct to drain instances of this cluster",
-        },
-      ],
-      true
-    );
+    const capacityProviderStrategies = fargate
+      ? undefined
+      : this.setupEc2Capacity(cluster, profile);
 
-    // User data will install lustre and mount it
-    cluster.autoscalingGroup!.addUserData(
-      "amazon-linux-extras install -y lustre",
-      "mkdir -p /fsx",
-      `mount -t lustre ${this.lustre.dnsName}@tcp:/${this.lustre.mountName} /fsx -o noatime,flock`,
-      `echo ${this.lustre.dnsName}@tcp:/${this.lustre.mountName} /fsx lustre defaults,flock,_netdev,x-systemd.automount,x-systemd.requires=network.service 0 0 >> /etc/fstab`,
-      "echo mountDone"
-    );
+    // Definition created for the workers. Fargate can't mount lustre, so its workers read the
+    // datasets straight from s3 instead
+    const taskDefinition = fargate
+      ? new FargateTaskDefinition(this, "Worker Definition", {
+          family: deploymentName(this, "Dask-Worker"),
+          ...fargateTaskSize(profile)!,
+        })
+      : new Ec2TaskDefinition(this, "Worker Definition", {
+          family: deploymentName(this, "Dask-Worker"),
+          networkMode: NetworkMode.AWS_VPC,
+          volumes: [
+            {
+              name: "Lustre",
+              host: {
+                sourcePath: "/fsx",
+              },
+            },
+          ],
+        });
+    if (fargate) {
+      const buckets = worker.datasets.map(
+        ({ dataset }) => `arn:aws:s3:::${dataset.split("/")[2]}`
+      );
+      taskDefinition.addToTaskRolePolicy(
+        new PolicyStatement({
+          actions: ["s3:GetObject", "s3:ListBucket"],
+          resources: [...buckets, ...buckets.map((bucket) => `${bucket}/*`)],
+        })
+      );
+    }
 
-    // We are using an autoscaling capacity provider which will manage the scaling of instances. We
-    // just need to worry about task scaling
-    const capacityProvider = new AsgCapacityProvider(
+    // Setup the worker to run multiple workers with multiple threads
+    // Adjust these figures through the worker's compute profile to optimise on your workload
+    const NWORKERS = profile.workersPerTask;
+    const THREADS = profile.threadsPerWorker;
+    const FIRST_PORT = WORKER_BASE_PORT;
+    const LAST_PORT = WORKER_BASE_PORT + NWORKERS * 2 - 1;
+    // The scheduler registers itself in the client region's namespace
+    const SCHEDULER = `${tls ? "tls://" : ""}Dask-Scheduler.${deploymentName(
       this,
-      "AsgCapacityProvider",
-      {
-        autoScalingGroup: cluster.autoscalingGroup!,
-        targetCapacityPercent: 80,
-      }
-    );
-    cluster.addAsgCapacityProvider(capacityProvider);
-
-    // Definition created for the workers
-    const taskDefinition = new Ec2TaskDefinition(this, "Worker Definition", {
-      family: "Dask-Worker",
-      networkMode: NetworkMode.AWS_VPC,
-      volumes: [
-        {
-          name: "Lustre",
-          host: {
-            sourcePath: "/fsx",
+      "local-dask"
+    )}:8786`;
+    const DASK = tls ? `${DASK_TLS_ENTRYPOINT} dask` : "dask";
+    const TLS_OPTIONS = tls ? ` ${DASK_TLS_OPTIONS.join(" ")}` : "";
+    // The certificate is issued and rotated in the client region, which names its secret in a parameter
+    const tlsSecret = tls
+      ? Secret.fromSecretCompleteArn(
+          this,
+          "Worker TLS Secret",
+          new CrossRegionImport(this, "Worker TLS Param", {
+            parameterName: workerTlsParameterName(this, client.region),
+            region: client.region,
+            assumedRoleArn: crossAccountRoleArn(this, client),
+          }).value
+        )
+      : undefined;
+    if (tlsSecret) {
+      // The secret's key sits in the client region, and is only used through Secrets Manager
+      taskDefinition.addToExecutionRolePolicy(
+        new PolicyStatement({
+          actions: ["kms:Decrypt"],
+          resources: [
+            `arn:aws:kms:${client.region}:${
+              client.account ?? this.account
+            }:key/*`,
+          ],
+          conditions: {
+            StringEquals: {
+              "kms:ViaService": `secretsmanager.${client.region}.amazonaws.com`,
+            },
           },
-        },
-      ],
-    });
-
-    // Setup the worker to run multiple workers with multiple threads
-    // Feel free to adjust these figures to optimise on your workload
-    const NWORKERS = 10;
-    const THREADS = 3;
+        })
+      );
+      NagSuppressions.addResourceSuppressions(
+        taskDefinition.obtainExecutionRole(),
+        [
+          {
+            id: "AwsSolutions-IAM5",
+            reason:
+              "The client region's key is only known to its stack, and can only be used through Secrets Manager",
+          },
+        ],
+        true
+      );
+    }
     const container = taskDefinition.addContainer("Container", {
       containerName: "Dask",
-      memoryReservationMiB: 25000,
+      memoryReservationMiB: profile.memoryReservationMiB,
+      // A Fargate task's cpu is its size
+      cpu: fargate ? undefined : profile.cpuUnits,
       image: ContainerImage.fromDockerImageAsset(
         new DockerImageAsset(this, "Worker Image Repo", {
           directory: path.join(__dirname, "..", "DaskImage"),
@@ -412,57 +654,30 @@ export class WorkerRegion extends Stack {
       command: [
         "bin/sh",
         "-c",
-        `pip3 install --upgrade xarray[complete] intake_esm s3fs eccodes git+https://github.com/gjoseph92/dask-worker-pools.git@main && dask worker Dask-Scheduler.local-dask:8786 --worker-port 9000:${
-          9000 + NWORKERS - 1
-        } --nanny-port ${9000 + NWORKERS}:${
-          9000 + NWORKERS * 2 - 1
-        } --resources pool-${
+        `pip3 install --upgrade xarray[complete] intake_esm s3fs eccodes git+https://github.com/gjoseph92/dask-worker-pools.git@main && ${DASK} worker ${SCHEDULER} --worker-port ${FIRST_PORT}:${
+          FIRST_PORT + NWORKERS - 1
+        } --nanny-port ${FIRST_PORT + NWORKERS}:${LAST_PORT} --resources pool-${
           this.region
-        }=1 --nworkers ${NWORKERS} --nthreads ${THREADS} --no-dashboard`,
+        }=1 --nworkers ${NWORKERS} --nthreads ${THREADS} --no-dashboard${TLS_OPTIONS}`,
       ],
+      secrets: tlsSecret ? daskTlsSecrets(tlsSecret) : undefined,
       essential: true,
       logging: LogDriver.awsLogs({
         streamPrefix: "ecs",
         logGroup: new LogGroup(this, "Dask Worker Log Group"),
       }),
       portMappings: [...Array(NWORKERS * 2).keys()].map((x) => {
-        return { containerPort: 9000 + x };
+        return { containerPort: FIRST_PORT + x };
       }),
     });
-    container.addMountPoints({
-      sourceVolume: "Lustre",
-      containerPath: "/fsx",
-      readOnly: false,
-    });
-    NagSuppressions.addResourceSuppressions(
-      new AwsCustomResource(this, "Enable Scanning on Repo", {
-        onCreate: {
-          service: "ECR",
-          action: "putRegistryScanningConfiguration",
-          physicalResourceId: { id: "putRegistryScanningConfiguration" },
-          parameters: {
-            scanType: "ENHANCED",
-          },
-        },
-        policy: AwsCustomResourcePolicy.fromStatements([
-          new PolicyStatement({
-            actions: [
-              "iam:CreateServiceLinkedRole",
-              "inspector2:Enable",
-              "ecr:PutRegistryScanningConfiguration",
-            ],
-            resources: AwsCustomResourcePolicy.ANY_RESOURCE,
-          }),
-        ]),
-      }),
-      [
-        {
-          id: "AwsSolutions-IAM5",
-          reason: "Call needs access to all resources",
-        },
-      ],
-      true
-    );
+    if (!fargate) {
+      container.addMountPoints({
+        sourceVolume: "Lustre",
+        containerPath: "/fsx",
+        readOnly: false,
+      });
+    }
+    new EnableRegistryScanning(this, "Enable Scanning on Repo");
 
     // Security group will open up to multiple ports based on how many workers you have set
     const WorkerSecurityGroup = new SecurityGroup(
@@ -470,37 +685,111 @@ export class WorkerRegion extends Stack {
       "Worker Security Group",
       { vpc: this.vpc }
     );
+    this.workerSecurityGroup = WorkerSecurityGroup;
     WorkerSecurityGroup.addIngressRule(
       Peer.ipv4(client.cidr),
-      Port.tcpRange(9000, 9000 + NWORKERS * 2 - 1),
+      Port.tcpRange(FIRST_PORT, LAST_PORT),
       "Allow Scheduler connect to Workers"
     );
     WorkerSecurityGroup.addIngressRule(
       Peer.ipv4(this.vpc.vpcCidrBlock),
-      Port.tcpRange(9000, 9000 + NWORKERS * 2 - 1),
+      Port.tcpRange(FIRST_PORT, LAST_PORT),
       "Allow Workers in this region to talk to themselves"
     );
+    // Workers in other regions fetch the results they depend on straight from these workers
+    for (const peer of transferPeers) {
+      WorkerSecurityGroup.addIngressRule(
+        Peer.ipv4(peer.cidr),
+        Port.tcpRange(FIRST_PORT, LAST_PORT),
+        `Allow Workers in ${peer.region} to transfer data from these Workers`
+      );
+    }
 
-    // Spin up the below service on ECS
-    const ec2s = new Ec2Service(this, "Workers", {
-      serviceName: "Dask-Workers-ecs",
-      enableExecuteCommand: true,
-      taskDefinition,
-      cluster,
-      securityGroups: [WorkerSecurityGroup],
-    });
+    // Spin up the below service on ECS, which reaches the scheduler through the private namespace
+    // associated with this vpc whichever way it's launched
+    const service = fargate
+      ? new FargateService(this, "Workers", {
+          serviceName: deploymentName(this, "Dask-Workers-ecs"),
+          enableExecuteCommand: true,
+          taskDefinition,
+          cluster,
+          securityGroups: [WorkerSecurityGroup],
+          vpcSubnets: {
+            subnetType: SubnetType.PRIVATE_WITH_EGRESS,
+          },
+        })
+      : new Ec2Service(this, "Workers", {
+          serviceName: deploymentName(this, "Dask-Workers-ecs"),
+          enableExecuteCommand: true,
+          taskDefinition,
+          cluster,
+          securityGroups: [WorkerSecurityGroup],
+          capacityProviderStrategies,
+        });
+    // The strategy needs the capacity providers associated with the cluster before tasks can launch
+    if (capacityProviderStrategies) service.node.addDependency(cluster);
     // We configure the autoscaling activies below. Note that test two tasks can work on a single instance
-    const autoScalingGroup = ec2s.autoScaleTaskCount({
-      minCapacity: 1,
-      maxCapacity: 16,
+    // The target is made here rather than through the service, which keeps its own target private, so
+    // the idle scale in below can be added to it as a single step policy
+    const scalableTarget = new ScalableTarget(this, "Worker Task Count", {
+      serviceNamespace: ServiceNamespace.ECS,
+      scalableDimension: "ecs:service:DesiredCount",
+      resourceId: `service/${cluster.clusterName}/${service.serviceName}`,
+      // The service linked role the service's own target would use
+      role: Role.fromRoleArn(
+        this,
+        "Worker Scaling Role",
+        `arn:${this.partition}:iam::${this.account}:role/aws-service-role/ecs.application-autoscaling.amazonaws.com/AWSServiceRoleForApplicationAutoScaling_ECSService`
+      ),
+      minCapacity: profile.minTasks,
+      maxCapacity: profile.maxTasks,
+    });
+    // Deleting a replaced target would deregister the service's scaling, so the target keeps the
+    // logical id it had when the service made it
+    (scalableTarget.node.defaultChild as CfnScalableTarget).overrideLogicalId(
+      "WorkersTaskCountTarget22FEEEDC"
+    );
+    // CPU is a poor measure of I/O bound workers, so we scale on the pool's backlog published by the
+    // scheduler instead. As soon as there is work the service is stepped to enough tasks for it
+    const backlog = new MathExpression({
+      expression: "queued + processing",
+      usingMetrics: {
+        queued: poolMetric(this, this.region, "QueuedTasks"),
+        processing: poolMetric(this, this.region, "ProcessingTasks"),
+      },
+      label: `pool-${this.region} backlog`,
+      period: Duration.minutes(1),
     });
-    // Scaling on CPU when it's above 40%, you can vary cooling periods as you see fit
-    // The below will scale up when 3 consecutive data points is above 40%
-    // And scale down when 15 datapoints are below ~37%
-    autoScalingGroup.scaleOnCpuUtilization("CPUScaling", {
-      targetUtilizationPercent: 40,
-      scaleOutCooldown: Duration.minutes(5),
-      scaleInCooldown: Duration.minutes(5),
+    scalableTarget.scaleOnMetric("BacklogScaling", {
+      metric: backlog,
+      adjustmentType: AdjustmentType.EXACT_CAPACITY,
+      scalingSteps: backlogScalingSteps(profile),
+      cooldown: Duration.minutes(5),
+    });
+    // And once the pool has sat idle for 15 minutes it's scaled back in, to zero by default
+    const idleScaleIn = new StepScalingAction(this, "Idle Scale In", {
+      scalingTarget: scalableTarget,
+      adjustmentType: AdjustmentType.EXACT_CAPACITY,
+    });
+    idleScaleIn.addAdjustment({
+      adjustment: profile.minTasks,
+      upperBound: 0,
+    });
+    new Alarm(this, "Idle Pool Alarm", {
+      metric: backlog,
+      alarmDescription: `pool-${this.region} has had no work for 15 minutes`,
+      comparisonOperator: ComparisonOperator.LESS_THAN_OR_EQUAL_TO_THRESHOLD,
+      threshold: 0,
+      evaluationPeriods: 15,
+    }).addAlarmAction(new ApplicationScalingAction(idleScaleIn));
+
+    // Notebooks lease workers ahead of a job through this api, rather than waiting on the scaling above
+    new WorkerScalingApi(this, "Worker Scaling Api", {
+      cluster,
+      service,
+      profile,
+      vpc: this.vpc,
+      client,
     });
 
     NagSuppressions.addResourceSuppressions(
@@ -514,26 +803,181 @@ export class WorkerRegion extends Stack {
       ],
       true
     );
+  }
+
+  /** Setup EC2 Capacity
+   *
+   * Adds the on-demand autoscaling group to the cluster, and the Spot group alongside it if the
+   * profile asks for one
+   *
+   * @param cluster - The worker cluster
+   * @param profile - The worker's compute profile, which sizes the groups
+   * @returns The capacity provider strategy for the workers service, when there's Spot capacity
+   */
+  setupEc2Capacity(
+    cluster: Cluster,
+    profile: ResolvedComputeProfile
+  ): CapacityProviderStrategy[] | undefined {
+    const autoScalingGroup = cluster.addCapacity("DefaultAutoScalingGroup", {
+      instanceType: new InstanceType(profile.instanceType),
+      minCapacity: profile.minInstances,
+      maxCapacity: profile.maxInstances,
+      vpcSubnets: {
+        subnetType: SubnetType.PRIVATE_WITH_EGRESS,
+      },
+      groupMetrics: [WORKER_GROUP_METRICS],
+    });
+    this.setupWorkerInstances(autoScalingGroup);
 
-    // On the first launch of this CDK we would like to trigger the job immediately to sync.
-    // It's positioning at the bottom is to give the data association enough time to link before triggering
-    new AwsCustomResource(this, "Trigger Sync Job Now", {
-      onCreate: {
-        service: "Lambda",
-        action: "invoke",
-        physicalResourceId: { id: "invokeLustreDataRepoSyncTask" },
-        parameters: {
-          FunctionName: this.RepoFn.functionName,
+    // We are using an autoscaling capacity provider which will manage the scaling of instances. We
+    // just need to worry about task scaling
+    const capacityProvider = new AsgCapacityProvider(
+      this,
+      "AsgCapacityProvider",
+      {
+        autoScalingGroup,
+        targetCapacityPercent: 80,
+      }
+    );
+    cluster.addAsgCapacityProvider(capacityProvider);
+    return profile.spot
+      ? this.setupSpotCapacity(cluster, capacityProvider, profile)
+      : undefined;
+  }
+
+  /** Setup Worker Instances
+   *
+   * Every instance the workers run on mounts the regional lustre file system under /fsx, which the
+   * task definition passes through to the containers
+   *
+   * @param autoScalingGroup - The group of instances to mount lustre on
+   */
+  setupWorkerInstances(autoScalingGroup: IAutoScalingGroup) {
+    NagSuppressions.addResourceSuppressions(
+      autoScalingGroup,
+      [
+        {
+          id: "AwsSolutions-SNS2",
+          reason:
+            "SNS is a default asset created to which is not exposed publicly",
+        },
+        {
+          id: "AwsSolutions-SNS3",
+          reason:
+            "SNS is a default asset created to which is not exposed publicly",
         },
+        {
+          id: "AwsSolutions-AS3",
+          reason:
+            "SNS is a default asset created to which is not exposed publicly",
+        },
+        {
+          id: "AwsSolutions-IAM5",
+          reason:
+            "Internally created service role generate by the cluster construct to drain instances of this cluster",
+        },
+      ],
+      true
+    );
+
+    // User data will install lustre and mount it
+    autoScalingGroup.addUserData(
+      "amazon-linux-extras install -y lustre",
+      `mkdir -p ${this.lustreMountPoint}`,
+      `mount -t lustre ${this.lustre.dnsName}@tcp:/${this.lustre.mountName} ${this.lustreMountPoint} -o noatime,flock`,
+      `echo ${this.lustre.dnsName}@tcp:/${this.lustre.mountName} ${this.lustreMountPoint} lustre defaults,flock,_netdev,x-systemd.automount,x-systemd.requires=network.service 0 0 >> /etc/fstab`,
+      "echo mountDone"
+    );
+  }
+
+  /** Setup Spot Capacity
+   *
+   * Dask reschedules the work of a lost worker, so most of the pool can run on Spot. A mixed-instances
+   * group spread over several instance types is added as a second capacity provider, and the service
+   * keeps a base of tasks on the on-demand group before placing the rest on Spot. When an instance
+   * is given its two minute interruption notice the ECS agent drains it so tasks are replaced early
+   *
+   * @param cluster - The worker cluster to add the Spot group to
+   * @param onDemandProvider - The capacity provider of the cluster's on-demand group
+   * @param profile - The worker's compute profile, with its Spot settings
+   * @returns The capacity provider strategy for the workers service
+   */
+  setupSpotCapacity(
+    cluster: Cluster,
+    onDemandProvider: AsgCapacityProvider,
+    profile: ResolvedComputeProfile
+  ): CapacityProviderStrategy[] {
+    const spot = profile.spot!;
+    const instanceRole = new Role(this, "Spot Worker Instance Role", {
+      assumedBy: new ServicePrincipal("ec2.amazonaws.com"),
+    });
+    const spotGroup = new AutoScalingGroup(this, "Spot Worker Group", {
+      vpc: this.vpc,
+      vpcSubnets: {
+        subnetType: SubnetType.PRIVATE_WITH_EGRESS,
       },
-      policy: AwsCustomResourcePolicy.fromStatements([
-        new PolicyStatement({
-          actions: ["lambda:InvokeFunction"],
-          resources: [
-            `arn:aws:lambda:${this.region}:${this.account}:function:${this.RepoFn.functionName}`,
-          ],
+      minCapacity: 0,
+      maxCapacity: spot.maxInstances,
+      groupMetrics: [WORKER_GROUP_METRICS],
+      mixedInstancesPolicy: {
+        launchTemplate: new LaunchTemplate(this, "Spot Worker Template", {
+          machineImage: EcsOptimizedImage.amazonLinux2(),
+          userData: UserData.forLinux(),
+          role: instanceRole,
+          securityGroup: new SecurityGroup(
+            this,
+            "Spot Worker Instance Security Group",
+            { vpc: this.vpc }
+          ),
         }),
-      ]),
-    }).node.addDependency(this.dataLink, this.RepoFn, this.lustre, ec2s);
+        instancesDistribution: {
+          onDemandBaseCapacity: 0,
+          onDemandPercentageAboveBaseCapacity: spot.onDemandPercent,
+          spotAllocationStrategy:
+            SpotAllocationStrategy.PRICE_CAPACITY_OPTIMIZED,
+        },
+        launchTemplateOverrides: spot.instanceTypes.map((instanceType) => ({
+          instanceType: new InstanceType(instanceType),
+        })),
+      },
+    });
+    this.setupWorkerInstances(spotGroup);
+    // The cluster only turns on draining for groups with a spot price, which a mixed group doesn't have
+    spotGroup.addUserData(
+      "echo ECS_ENABLE_SPOT_INSTANCE_DRAINING=true >> /etc/ecs/ecs.config"
+    );
+
+    const spotProvider = new AsgCapacityProvider(
+      this,
+      "Spot AsgCapacityProvider",
+      {
+        autoScalingGroup: spotGroup,
+        targetCapacityPercent: 80,
+      }
+    );
+    cluster.addAsgCapacityProvider(spotProvider);
+    NagSuppressions.addResourceSuppressions(
+      instanceRole,
+      [
+        {
+          id: "AwsSolutions-IAM5",
+          reason:
+            "Policy added by the cluster construct for the ECS agent to register and report on its instance",
+        },
+      ],
+      true
+    );
+
+    return [
+      {
+        capacityProvider: onDemandProvider.capacityProviderName,
+        base: spot.onDemandBaseTasks,
+        weight: 0,
+      },
+      {
+        capacityProvider: spotProvider.capacityProviderName,
+        weight: 1,
+      },
+    ];
   }
 }
@@ -8,7 +8,7 @@ import {
   CfnTransitGatewayRoute,
   Vpc,
 } from "aws-cdk-lib/aws-ec2";
-import { IClient } from "../../bin/interface";
+import { IClient, IWorker } from "../../bin/interface";
 import { TransitGatewayRouteTable } from "../SdkConstructs/default-transit-route-table-id";
 import { NagSuppressions } from "cdk-nag";
 
@@ -16,6 +16,8 @@ export interface WorkerRegionTGWRouteProps extends StackProps {
   client: IClient;
   tgw: CfnTransitGateway;
   attachmentId: CfnTransitGatewayPeeringAttachment;
+  // In hub mode the other worker regions are reached through the client as well
+  hubWorkers?: IWorker[];
 }
 
 /**
@@ -28,7 +30,7 @@ export class WorkerRegionTransitGatewayRoute extends Stack {
 
   constructor(scope: App, id: string, props: WorkerRegionTGWRouteProps) {
     super(scope, id, props);
-    const { client, tgw, attachmentId } = props;
+    const { client, tgw, attachmentId, hubWorkers = [] } = props;
 
     NagSuppressions.addStackSuppressions(this, [
       {
@@ -78,5 +80,13 @@ export class WorkerRegionTransitGatewayRoute extends Stack {
       destinationCidrBlock: client.cidr,
       transitGatewayAttachmentId: attachmentId.attrTransitGatewayAttachmentId,
     });
+    // The client's transit gateway holds a route to each worker region, so passes the traffic on
+    for (const worker of hubWorkers) {
+      new CfnTransitGatewayRoute(this, `TGW Route - ${worker.region}`, {
+        transitGatewayRouteTableId,
+        destinationCidrBlock: worker.cidr,
+        transitGatewayAttachmentId: attachmentId.attrTransitGatewayAttachmentId,
+      });
+    }
   }
 }
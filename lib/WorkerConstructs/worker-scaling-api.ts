@@ -0,0 +1,321 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+import { Aws, Duration, RemovalPolicy, Stack } from "aws-cdk-lib";
+import { AttributeType, BillingMode, Table } from "aws-cdk-lib/aws-dynamodb";
+import {
+  InterfaceVpcEndpoint,
+  InterfaceVpcEndpointAwsService,
+  IVpc,
+  Peer,
+  Port,
+} from "aws-cdk-lib/aws-ec2";
+import { BaseService, ICluster } from "aws-cdk-lib/aws-ecs";
+import { Rule, Schedule } from "aws-cdk-lib/aws-events";
+import { LambdaFunction } from "aws-cdk-lib/aws-events-targets";
+import {
+  AnyPrincipal,
+  ArnPrincipal,
+  PolicyStatement,
+} from "aws-cdk-lib/aws-iam";
+import { Code, Function, Runtime } from "aws-cdk-lib/aws-lambda";
+import {
+  PrivateHostedZone,
+  RecordSet,
+  RecordTarget,
+  RecordType,
+} from "aws-cdk-lib/aws-route53";
+import { InterfaceVpcEndpointTarget } from "aws-cdk-lib/aws-route53-targets";
+import {
+  AwsCustomResource,
+  AwsCustomResourcePolicy,
+  AwsSdkCall,
+  PhysicalResourceId,
+} from "aws-cdk-lib/custom-resources";
+import { NagSuppressions } from "cdk-nag";
+import { Construct } from "constructs";
+import { ResolvedComputeProfile } from "../../bin/compute";
+import { IClient } from "../../bin/interface";
+import { crossAccountRoleArn } from "../SdkConstructs/cross-account-role";
+import { CrossRegionImport } from "../SdkConstructs/cross-region-reference";
+import { deploymentName } from "../deployment-name";
+import { clientVpcParameterName, notebookRoleArn } from "../notebook-access";
+import path = require("path");
+
+// The longest a notebook can hold workers for without asking again
+const MAX_LEASE_HOURS = 24;
+
+interface WorkerScalingApiProps {
+  cluster: ICluster;
+  service: BaseService;
+  profile: ResolvedComputeProfile;
+  // The worker VPC, which holds the endpoint the notebook invokes the api through
+  vpc: IVpc;
+  client: IClient;
+}
+
+/**
+ * A small control plane next to the workers service, which the notebook invokes to lease workers for
+ * a job up front rather than waiting on the autoscaling. A lease raises the service's minimum tasks
+ * until it expires, when a schedule puts the minimum back. Only the notebook's role may invoke it, and
+ * only through a Lambda endpoint in the worker VPC, which the client VPC reaches over the transit
+ * gateway by resolving the region's Lambda api to the endpoint
+ */
+export class WorkerScalingApi extends Construct {
+  /**
+   * The function's name is fixed per region so the notebook can invoke it without looking it up
+   *
+   * @param scope - Any construct within the app, used to resolve the deployment identifier
+   * @param region - The worker region
+   */
+  static functionNameFor(scope: Construct, region: string): string {
+    return deploymentName(scope, `dask-worker-scaling-${region}`);
+  }
+
+  /**
+   * @param scope - Any construct within the app, used to resolve the deployment identifier
+   * @param account - The account the worker region sits in
+   * @param region - The worker region
+   */
+  static arnFor(scope: Construct, account: string, region: string): string {
+    return `arn:aws:lambda:${region}:${account}:function:${WorkerScalingApi.functionNameFor(
+      scope,
+      region
+    )}`;
+  }
+
+  constructor(scope: Construct, name: string, props: WorkerScalingApiProps) {
+    super(scope, name);
+    const { cluster, service, profile, vpc, client } = props;
+    const { region, account } = Stack.of(this);
+
+    const leases = new Table(this, "Worker Leases", {
+      partitionKey: { name: "leaseId", type: AttributeType.STRING },
+      billingMode: BillingMode.PAY_PER_REQUEST,
+      pointInTimeRecovery: true,
+      removalPolicy: RemovalPolicy.DESTROY,
+    });
+
+    const fn = new Function(this, "Worker Scaling Function", {
+      functionName: WorkerScalingApi.functionNameFor(this, region),
+      runtime: Runtime.NODEJS_18_X,
+      handler: "index.handler",
+      code: Code.fromAsset(path.join(__dirname, "..", "WorkerScalingApi")),
+      timeout: Duration.seconds(30),
+      environment: {
+        LeaseTable: leases.tableName,
+        ClusterName: cluster.clusterName,
+        ServiceName: service.serviceName,
+        WorkersPerTask: `${profile.workersPerTask}`,
+        MinTasks: `${profile.minTasks}`,
+        MaxTasks: `${profile.maxTasks}`,
+        MaxLeaseHours: `${MAX_LEASE_HOURS}`,
+      },
+      initialPolicy: [
+        new PolicyStatement({
+          actions: ["ecs:DescribeServices", "ecs:UpdateService"],
+          resources: [service.serviceArn],
+        }),
+        new PolicyStatement({
+          actions: [
+            "application-autoscaling:RegisterScalableTarget",
+            "application-autoscaling:DescribeScalableTargets",
+          ],
+          resources: ["*"],
+        }),
+      ],
+    });
+    leases.grantReadWriteData(fn);
+    const notebookRole = notebookRoleArn(
+      this,
+      client.account ?? account,
+      client.region
+    );
+    fn.addPermission("Notebook Invoke", {
+      principal: new ArnPrincipal(notebookRole),
+    });
+    this.setupEndpoint(vpc, client, fn, notebookRole);
+    NagSuppressions.addResourceSuppressions(
+      fn,
+      [
+        {
+          id: "AwsSolutions-IAM5",
+          reason:
+            "Scalable targets are identified by their service rather than an arn",
+        },
+      ],
+      true
+    );
+
+    // Expired leases are released on a schedule, as nothing else calls the api when they run out
+    new Rule(this, "Lease Expiry Rule", {
+      schedule: Schedule.rate(Duration.minutes(5)),
+      targets: [new LambdaFunction(fn)],
+    });
+    // A deploy that updates the service's scalable target puts its minimum back to the profile's,
+    // dropping the leases' floor until they're applied again once the stack has settled
+    new Rule(this, "Stack Update Rule", {
+      eventPattern: {
+        source: ["aws.cloudformation"],
+        detailType: ["CloudFormation Stack Status Change"],
+        detail: {
+          "stack-id": [Aws.STACK_ID],
+          "status-details": {
+            status: ["UPDATE_COMPLETE", "UPDATE_ROLLBACK_COMPLETE"],
+          },
+        },
+      },
+      targets: [new LambdaFunction(fn)],
+    });
+  }
+
+  /**
+   * Adds the Lambda endpoint the notebook invokes the api through. The endpoint answers for the
+   * region's Lambda api in a private zone, which is associated with the client VPC as well, so the
+   * notebook's calls to the region are routed over the transit gateway rather than the internet
+   *
+   * @param vpc - The worker VPC
+   * @param client - The client region, whose notebook invokes the api
+   * @param fn - The scaling api function
+   * @param notebookRole - The arn of the notebook's role
+   */
+  private setupEndpoint(
+    vpc: IVpc,
+    client: IClient,
+    fn: Function,
+    notebookRole: string
+  ) {
+    const { region, account } = Stack.of(this);
+    const endpoint = new InterfaceVpcEndpoint(this, "Lambda Endpoint", {
+      vpc,
+      service: InterfaceVpcEndpointAwsService.LAMBDA,
+      // The zone below resolves the api to the endpoint, for the client VPC as well as this one
+      privateDnsEnabled: false,
+    });
+    endpoint.connections.allowFrom(
+      Peer.ipv4(client.cidr),
+      Port.tcp(443),
+      "Allow the notebook to invoke the worker scaling api"
+    );
+    // Anything in this account keeps using Lambda through the endpoint, while the notebook may only
+    // invoke the api
+    endpoint.addToPolicy(
+      new PolicyStatement({
+        principals: [new AnyPrincipal()],
+        actions: ["*"],
+        resources: ["*"],
+        conditions: { StringEquals: { "aws:PrincipalAccount": account } },
+      })
+    );
+    endpoint.addToPolicy(
+      new PolicyStatement({
+        principals: [new ArnPrincipal(notebookRole)],
+        actions: ["lambda:InvokeFunction"],
+        resources: [fn.functionArn],
+      })
+    );
+
+    const zone = new PrivateHostedZone(this, "Lambda Zone", {
+      zoneName: `lambda.${region}.amazonaws.com`,
+      vpc,
+    });
+    new RecordSet(this, "Lambda Record", {
+      zone,
+      recordType: RecordType.A,
+      target: RecordTarget.fromAlias(new InterfaceVpcEndpointTarget(endpoint)),
+    });
+
+    // A VPC in another account is associated once this account authorises it
+    const clientRoleArn = crossAccountRoleArn(this, client);
+    const clientVpc = {
+      VPCId: new CrossRegionImport(this, "Client VPC Param", {
+        parameterName: clientVpcParameterName(this, client.region),
+        region: client.region,
+        assumedRoleArn: clientRoleArn,
+      }).value,
+      VPCRegion: client.region,
+    };
+    const association = PhysicalResourceId.of(
+      `${zone.hostedZoneId}:${clientVpc.VPCId}`
+    );
+    const authorization: AwsSdkCall = {
+      service: "Route53",
+      action: "createVPCAssociationAuthorization",
+      parameters: { HostedZoneId: zone.hostedZoneId, VPC: clientVpc },
+      physicalResourceId: association,
+    };
+    const authoriseVPC = clientRoleArn
+      ? new AwsCustomResource(this, "Authorize Client VPC", {
+          onCreate: authorization,
+          onUpdate: authorization,
+          onDelete: {
+            ...authorization,
+            action: "deleteVPCAssociationAuthorization",
+            ignoreErrorCodesMatching: "VPCAssociationAuthorizationNotFound",
+          },
+          policy: AwsCustomResourcePolicy.fromStatements([
+            new PolicyStatement({
+              actions: [
+                "route53:CreateVPCAssociationAuthorization",
+                "route53:DeleteVPCAssociationAuthorization",
+              ],
+              resources: [zone.hostedZoneArn],
+            }),
+          ]),
+        })
+      : undefined;
+    const associate: AwsSdkCall = {
+      service: "Route53",
+      action: "associateVPCWithHostedZone",
+      parameters: { HostedZoneId: zone.hostedZoneId, VPC: clientVpc },
+      assumedRoleArn: clientRoleArn,
+      physicalResourceId: association,
+    };
+    const associateVPC = new AwsCustomResource(this, "Associate Client VPC", {
+      onCreate: associate,
+      onUpdate: {
+        ...associate,
+        ignoreErrorCodesMatching: "ConflictingDomainExists",
+      },
+      onDelete: {
+        ...associate,
+        action: "disassociateVPCFromHostedZone",
+        ignoreErrorCodesMatching: "VPCAssociationNotFound",
+      },
+      policy: AwsCustomResourcePolicy.fromStatements(
+        clientRoleArn
+          ? [
+              new PolicyStatement({
+                actions: ["sts:AssumeRole"],
+                resources: [clientRoleArn],
+              }),
+            ]
+          : [
+              new PolicyStatement({
+                actions: [
+                  "route53:AssociateVPCWithHostedZone",
+                  "route53:DisassociateVPCFromHostedZone",
+                ],
+                resources: [zone.hostedZoneArn],
+              }),
+              new PolicyStatement({
+                actions: ["ec2:DescribeVpcs"],
+                resources: AwsCustomResourcePolicy.ANY_RESOURCE,
+              }),
+            ]
+      ),
+    });
+    if (authoriseVPC) associateVPC.node.addDependency(authoriseVPC);
+    NagSuppressions.addResourceSuppressions(
+      associateVPC,
+      [
+        {
+          id: "AwsSolutions-IAM5",
+          reason:
+            "Describing the VPC being associated needs access to all VPCs",
+        },
+      ],
+      true
+    );
+  }
+}
@@ -7,11 +7,15 @@ import {
   CfnTransitGatewayPeeringAttachment,
   Vpc,
 } from "aws-cdk-lib/aws-ec2";
-import { StringParameter } from "aws-cdk-lib/aws-ssm";
 import { NagSuppressions } from "cdk-nag";
 import { IWorker } from "../../bin/interface";
-import { SSMParameterReader } from "../SdkConstructs/ssm-param-reader";
+import {
+  CrossRegionExport,
+  CrossRegionImport,
+} from "../SdkConstructs/cross-region-reference";
 import { AcceptTGWRequestClient } from "../SdkConstructs/accept-tgw-request-client";
+import { crossAccountRoleArn } from "../SdkConstructs/cross-account-role";
+import { deploymentName } from "../deployment-name";
 
 export interface WorkerToWorkerTGWProps extends StackProps {
   peerWorker: IWorker;
@@ -45,44 +49,49 @@ export class WorkerToWorkerTGW extends Stack {
       },
     ]);
 
+    // Set when the peer region is deployed to another account
+    const peerRoleArn = crossAccountRoleArn(this, peerWorker);
+
     // Pull the exisitng TGW from the peer region we wish to connect to
-    const peerTransitGatewayId = new SSMParameterReader(
+    const peerTransitGatewayId = new CrossRegionImport(
       this,
       `TGW Param - ${peerWorker.region}`,
       {
-        parameterName: `tgw-param-${peerWorker.region}`,
+        parameterName: deploymentName(this, `tgw-param-${peerWorker.region}`),
         region: peerWorker.region,
-        account: this.account,
+        assumedRoleArn: peerRoleArn,
       }
-    ).getParameterValue();
+    ).value;
     // Pull the local TGW
-    const transitGatewayId = new SSMParameterReader(
+    const transitGatewayId = new CrossRegionImport(
       this,
       `TGW Param - ${this.region}`,
       {
-        parameterName: `tgw-param-${this.region}`,
+        parameterName: deploymentName(this, `tgw-param-${this.region}`),
         region: this.region,
-        account: this.account,
       }
-    ).getParameterValue();
+    ).value;
     // Create the peering attachment
     this.attachmentID = new CfnTransitGatewayPeeringAttachment(
       this,
       "Peering Connection",
       {
-        peerAccountId: this.account,
+        peerAccountId: peerWorker.account ?? this.account,
         peerRegion: peerWorker.region,
         peerTransitGatewayId,
         transitGatewayId,
       }
     );
     // This attachment ID will be required by the peer region for the TGW route table
-    new StringParameter(this, `Peering ID - ${peerWorker.region}`, {
-      parameterName: `tgw-attachmentid-${this.region}-${peerWorker.region}`,
+    new CrossRegionExport(this, `Peering ID - ${peerWorker.region}`, {
+      parameterName: deploymentName(
+        this,
+        `tgw-attachmentid-${this.region}-${peerWorker.region}`
+      ),
       stringValue: this.attachmentID.attrTransitGatewayAttachmentId,
     });
     // Accept the request to peer from the peer region
-    this.acceptRequest(peerWorker.region);
+    this.acceptRequest(peerWorker.region, peerRoleArn);
 
     // Loop the private subnets adding the route for worker region cidrs to the TGW
     for (let i = 0; i < vpc.privateSubnets.length; i++) {
@@ -98,12 +107,14 @@ export class WorkerToWorkerTGW extends Stack {
    * Accept from the peer region the request to peer
    *
    * @param peerRegion - The peering region. e.g. us-west-2
+   * @param assumedRoleArn - The role to accept through when the peer is in another account
    */
-  acceptRequest(peerRegion: string) {
+  acceptRequest(peerRegion: string, assumedRoleArn?: string) {
     new AcceptTGWRequestClient(this, "Accept Request", {
       attachmentId: this.attachmentID.attrTransitGatewayAttachmentId,
       region: peerRegion,
       account: this.account,
+      assumedRoleArn,
     });
   }
 }
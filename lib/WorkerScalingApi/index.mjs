@@ -0,0 +1,239 @@
+import { randomUUID } from "crypto";
+import {
+  ApplicationAutoScalingClient,
+  DescribeScalableTargetsCommand,
+  RegisterScalableTargetCommand,
+} from "@aws-sdk/client-application-auto-scaling";
+import {
+  DynamoDBClient,
+  GetItemCommand,
+  ScanCommand,
+  TransactWriteItemsCommand,
+} from "@aws-sdk/client-dynamodb";
+import { DescribeServicesCommand, ECSClient } from "@aws-sdk/client-ecs";
+
+const autoScaling = new ApplicationAutoScalingClient();
+const dynamodb = new DynamoDBClient();
+const ecs = new ECSClient();
+
+const {
+  LeaseTable,
+  ClusterName,
+  ServiceName,
+  WorkersPerTask,
+  MinTasks,
+  MaxTasks,
+  MaxLeaseHours,
+} = process.env;
+const scalableTarget = {
+  ServiceNamespace: "ecs",
+  ResourceId: `service/${ClusterName}/${ServiceName}`,
+  ScalableDimension: "ecs:service:DesiredCount",
+};
+
+// The tasks held by every lease are kept as a counter alongside them, so that leases racing each
+// other can't take more than the service's maximum between them
+const COUNTER_ID = "#leased-tasks";
+const counterKey = { leaseId: { S: COUNTER_ID } };
+
+const counterChange = (tasks, ConditionExpression) => ({
+  Update: {
+    TableName: LeaseTable,
+    Key: counterKey,
+    UpdateExpression: "ADD leasedTasks :tasks",
+    ConditionExpression,
+    ExpressionAttributeValues: {
+      ":tasks": { N: String(tasks) },
+      ...(ConditionExpression && {
+        ":limit": { N: String(Number(MaxTasks) - tasks) },
+      }),
+    },
+  },
+});
+
+// Removes a lease and its tasks from the counter, returning whether it was still there to remove
+const removeLease = async ({ leaseId, tasks }) => {
+  try {
+    await dynamodb.send(
+      new TransactWriteItemsCommand({
+        TransactItems: [
+          {
+            Delete: {
+              TableName: LeaseTable,
+              Key: { leaseId: { S: leaseId } },
+              ConditionExpression: "attribute_exists(leaseId)",
+            },
+          },
+          counterChange(-tasks),
+        ],
+      })
+    );
+    return true;
+  } catch (error) {
+    if (error.name !== "TransactionCanceledException") throw error;
+    return false;
+  }
+};
+
+// Leases are kept until they expire, when they're removed here along with their tasks
+const activeLeases = async (now) => {
+  const { Items } = await dynamodb.send(
+    new ScanCommand({ TableName: LeaseTable })
+  );
+  const leases = Items.filter(({ leaseId }) => leaseId.S !== COUNTER_ID).map(
+    (item) => ({
+      leaseId: item.leaseId.S,
+      workers: Number(item.workers.N),
+      tasks: Number(item.tasks.N),
+      expiresAt: Number(item.expiresAt.N),
+    })
+  );
+  for (const lease of leases.filter(({ expiresAt }) => expiresAt <= now)) {
+    await removeLease(lease);
+  }
+  return leases.filter(({ expiresAt }) => expiresAt > now);
+};
+
+const leasedTasks = (leases) =>
+  leases.reduce((total, { tasks }) => total + tasks, 0);
+
+// The service's autoscaling can't scale in below the tasks held by the leases. The stack sets the
+// minimum back to the profile's whenever it updates the scalable target, so this is run again once
+// the stack has settled
+const reconcile = async (leases) => {
+  await autoScaling.send(
+    new RegisterScalableTargetCommand({
+      ...scalableTarget,
+      // Only a deploy lowering the maximum below the leases can leave them holding more
+      MinCapacity: Math.min(
+        Number(MaxTasks),
+        Math.max(Number(MinTasks), leasedTasks(leases))
+      ),
+    })
+  );
+};
+
+const status = async (leases) => {
+  const { services } = await ecs.send(
+    new DescribeServicesCommand({
+      cluster: ClusterName,
+      services: [ServiceName],
+    })
+  );
+  const { ScalableTargets } = await autoScaling.send(
+    new DescribeScalableTargetsCommand({
+      ServiceNamespace: scalableTarget.ServiceNamespace,
+      ResourceIds: [scalableTarget.ResourceId],
+      ScalableDimension: scalableTarget.ScalableDimension,
+    })
+  );
+  const [{ desiredCount, runningCount, pendingCount }] = services;
+  const [{ MinCapacity, MaxCapacity }] = ScalableTargets;
+  return {
+    workersPerTask: Number(WorkersPerTask),
+    desiredTasks: desiredCount,
+    runningTasks: runningCount,
+    pendingTasks: pendingCount,
+    runningWorkers: runningCount * Number(WorkersPerTask),
+    minTasks: MinCapacity,
+    maxTasks: MaxCapacity,
+    leasedTasks: leasedTasks(leases),
+    leases: leases.map(({ leaseId, workers, tasks, expiresAt }) => ({
+      leaseId,
+      workers,
+      tasks,
+      expiresAt: new Date(expiresAt * 1000).toISOString(),
+    })),
+  };
+};
+
+export const handler = async (event) => {
+  const now = Math.floor(Date.now() / 1000);
+
+  // The schedule releases the capacity of expired leases, and a stack update has it applied again
+  if (event.source === "aws.events" || event.source === "aws.cloudformation") {
+    await reconcile(await activeLeases(now));
+    return {};
+  }
+
+  switch (event.action) {
+    case "lease": {
+      const workers = Number(event.workers);
+      const hours = Number(event.hours);
+      if (!Number.isInteger(workers) || workers < 1) {
+        throw new Error("workers must be a whole number of at least 1");
+      }
+      if (!(hours > 0 && hours <= Number(MaxLeaseHours))) {
+        throw new Error(`hours must be above 0 and at most ${MaxLeaseHours}`);
+      }
+      const lease = {
+        leaseId: randomUUID(),
+        workers,
+        tasks: Math.ceil(workers / Number(WorkersPerTask)),
+        expiresAt: now + Math.round(hours * 3600),
+      };
+      // Leases never hold more than the service's maximum tasks between them, which the counter
+      // only lets through if it stays within it
+      try {
+        await dynamodb.send(
+          new TransactWriteItemsCommand({
+            TransactItems: [
+              counterChange(
+                lease.tasks,
+                "attribute_not_exists(leasedTasks) OR leasedTasks <= :limit"
+              ),
+              {
+                Put: {
+                  TableName: LeaseTable,
+                  Item: {
+                    leaseId: { S: lease.leaseId },
+                    workers: { N: String(lease.workers) },
+                    tasks: { N: String(lease.tasks) },
+                    expiresAt: { N: String(lease.expiresAt) },
+                  },
+                },
+              },
+            ],
+          })
+        );
+      } catch (error) {
+        if (error.name !== "TransactionCanceledException") throw error;
+        const { Item } = await dynamodb.send(
+          new GetItemCommand({ TableName: LeaseTable, Key: counterKey })
+        );
+        const available = Number(MaxTasks) - Number(Item?.leasedTasks?.N ?? 0);
+        const spare = Math.max(available, 0) * Number(WorkersPerTask);
+        throw new Error(
+          `Only ${spare} more workers can be leased, the service runs at most ${MaxTasks} tasks of ${WorkersPerTask} workers`
+        );
+      }
+      const leases = await activeLeases(now);
+      await reconcile(leases);
+      return { leaseId: lease.leaseId, ...(await status(leases)) };
+    }
+    case "release": {
+      const { Item } = await dynamodb.send(
+        new GetItemCommand({
+          TableName: LeaseTable,
+          Key: { leaseId: { S: String(event.leaseId) } },
+        })
+      );
+      // A lease that has expired or been released already has nothing left to give back
+      if (Item && Item.leaseId.S !== COUNTER_ID) {
+        await removeLease({
+          leaseId: Item.leaseId.S,
+          tasks: Number(Item.tasks.N),
+        });
+      }
+      const leases = await activeLeases(now);
+      await reconcile(leases);
+      return status(leases);
+    }
+    case "status":
+      return status(await activeLeases(now));
+    default:
+      throw new Error(
+        `Unknown action ${event.action}, expected lease, release or status`
+      );
+  }
+};
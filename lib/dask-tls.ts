@@ -0,0 +1,60 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+import { Secret } from "aws-cdk-lib/aws-ecs";
+import { ISecret } from "aws-cdk-lib/aws-secretsmanager";
+import { IConstruct } from "constructs";
+import { deploymentName } from "./deployment-name";
+
+// Each role has its own certificate, see lib/DaskTlsRotation/index.py
+export type DaskTlsRole = "scheduler" | "worker" | "client";
+
+// Where lib/DaskImage/with_tls.sh writes the certificates injected into the container
+const TLS_DIRECTORY = "/tmp/dask-tls";
+
+// Wraps the dask command, writing the certificates to the files the options below point to first
+export const DASK_TLS_ENTRYPOINT = "/opt/dask/with_tls.sh";
+
+// The options the scheduler and workers are started with to only talk over tls://
+export const DASK_TLS_OPTIONS = [
+  "--protocol",
+  "tls",
+  "--tls-ca-file",
+  `${TLS_DIRECTORY}/ca.pem`,
+  "--tls-cert",
+  `${TLS_DIRECTORY}/cert.pem`,
+  "--tls-key",
+  `${TLS_DIRECTORY}/key.pem`,
+];
+
+/**
+ * The secret holding a role's certificate, named so the notebook can read it without looking it up
+ *
+ * @param scope - Any construct within the app
+ * @param role - The role the certificate is issued to
+ */
+export const daskTlsSecretName = (scope: IConstruct, role: DaskTlsRole) =>
+  deploymentName(scope, `dask-tls-${role}`);
+
+/**
+ * The parameter in the client region holding the arn of the workers' secret, for worker regions to read
+ *
+ * @param scope - Any construct within the app
+ * @param region - The client region
+ */
+export const workerTlsParameterName = (scope: IConstruct, region: string) =>
+  deploymentName(scope, `dask-tls-worker-param-${region}`);
+
+/**
+ * The container secrets which with_tls.sh writes out for the --tls-* options, ECS reads them when
+ * each task starts so a task picks up the latest rotated certificate
+ *
+ * @param secret - The secret of the container's role
+ */
+export const daskTlsSecrets = (
+  secret: ISecret
+): { [name: string]: Secret } => ({
+  DASK_TLS_CA: Secret.fromSecretsManager(secret, "ca"),
+  DASK_TLS_CERT: Secret.fromSecretsManager(secret, "cert"),
+  DASK_TLS_KEY: Secret.fromSecretsManager(secret, "key"),
+});
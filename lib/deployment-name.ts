@@ -0,0 +1,17 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+import { IConstruct } from "constructs";
+
+/**
+ * Prefix a name with the deployment identifier held in the app's context, so that several
+ * deployments (e.g. dev and prod) can sit side by side in one account. Without an identifier the
+ * name is left as is, keeping existing deployments unchanged
+ *
+ * @param scope - Any construct within the app
+ * @param name - The name to namespace. e.g. tgw-param-us-east-1
+ */
+export const deploymentName = (scope: IConstruct, name: string): string => {
+  const deployment: string | undefined = scope.node.tryGetContext("deployment");
+  return deployment ? `${deployment}-${name}` : name;
+};
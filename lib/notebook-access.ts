@@ -0,0 +1,38 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+import { IConstruct } from "constructs";
+import { deploymentName } from "./deployment-name";
+
+/**
+ * The role the client's notebook runs as, named so the worker regions can let it alone invoke their
+ * scaling api
+ *
+ * @param scope - Any construct within the app
+ * @param region - The client region
+ */
+export const notebookRoleName = (scope: IConstruct, region: string) =>
+  deploymentName(scope, `dask-notebook-${region}`);
+
+/**
+ * The arn of the client's notebook role
+ *
+ * @param scope - Any construct within the app
+ * @param account - The account the client is deployed to
+ * @param region - The client region
+ */
+export const notebookRoleArn = (
+  scope: IConstruct,
+  account: string,
+  region: string
+) => `arn:aws:iam::${account}:role/${notebookRoleName(scope, region)}`;
+
+/**
+ * The parameter the client's VPC id is exported under, which the worker regions associate with the
+ * zone resolving their Lambda endpoint
+ *
+ * @param scope - Any construct within the app
+ * @param region - The client region
+ */
+export const clientVpcParameterName = (scope: IConstruct, region: string) =>
+  deploymentName(scope, `client-vpc-param-${region}`);
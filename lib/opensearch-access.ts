@@ -0,0 +1,28 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+import { IConstruct } from "constructs";
+import { deploymentName } from "./deployment-name";
+
+/**
+ * The role a worker region's indexer writes to OpenSearch with, named so the client can map it to
+ * the domain's writer role before the region is deployed
+ *
+ * @param scope - Any construct within the app
+ * @param region - The worker region
+ */
+export const indexerRoleName = (scope: IConstruct, region: string) =>
+  deploymentName(scope, `dask-indexer-${region}`);
+
+/**
+ * The arn of a worker region's indexer role
+ *
+ * @param scope - Any construct within the app
+ * @param account - The account the worker region is deployed to
+ * @param region - The worker region
+ */
+export const indexerRoleArn = (
+  scope: IConstruct,
+  account: string,
+  region: string
+) => `arn:aws:iam::${account}:role/${indexerRoleName(scope, region)}`;
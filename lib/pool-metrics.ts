@@ -0,0 +1,38 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+import { Duration } from "aws-cdk-lib";
+import { Metric } from "aws-cdk-lib/aws-cloudwatch";
+import { IConstruct } from "constructs";
+import { deploymentName } from "./deployment-name";
+
+// The metrics the scheduler publishes for each pool, see lib/DaskImage/pool_metrics.py
+export type PoolMetricName = "QueuedTasks" | "ProcessingTasks" | "Workers";
+
+/**
+ * The CloudWatch namespace the scheduler publishes its pool metrics to, kept apart per deployment
+ *
+ * @param scope - Any construct within the app
+ */
+export const poolMetricsNamespace = (scope: IConstruct): string =>
+  deploymentName(scope, "Dask");
+
+/**
+ * One of the metrics the scheduler publishes for a region's worker pool, at the minute it's published
+ *
+ * @param scope - Any construct within the app
+ * @param region - The worker region whose pool-<region> resource the metric counts
+ * @param metricName - The metric to read
+ */
+export const poolMetric = (
+  scope: IConstruct,
+  region: string,
+  metricName: PoolMetricName
+): Metric =>
+  new Metric({
+    namespace: poolMetricsNamespace(scope),
+    metricName,
+    dimensionsMap: { Pool: `pool-${region}` },
+    period: Duration.minutes(1),
+    statistic: "Maximum",
+  });
@@ -0,0 +1,77 @@
+// Copyright Amazon.com, Inc. or its affiliates. All Rights Reserved.
+// SPDX-License-Identifier: MIT-0
+
+import { App, Stack } from "aws-cdk-lib";
+import { CfnRoute, CfnSecurityGroup } from "aws-cdk-lib/aws-ec2";
+import { computeProfile, WORKER_BASE_PORT } from "../bin/compute";
+import { IWorker } from "../bin/interface";
+import { WorkerRegion } from "./WorkerConstructs/worker-region-stack";
+
+/** Check Worker Transfers
+ *
+ * Compares the routes between worker regions with the security group rules opening their worker
+ * ports to each other. Workers in two regions can only reach each other when each region's subnets
+ * route to the other, so a rule without both routes opens ports nothing can reach, and with
+ * workerTransfers set a pair of routes without the rule leaves Dask unable to move data between
+ * them. Added as a validation of the app, as the routes are spread across the peering stacks
+ *
+ * @param app - The app holding every stack
+ * @param workerStacks - The stack of each worker region, in the same order as the workers
+ * @param workers - An array of the worker regions
+ * @param workerTransfers - Whether the topology asks for the worker ports to be opened
+ */
+export function checkWorkerTransfers(
+  app: App,
+  workerStacks: WorkerRegion[],
+  workers: IWorker[],
+  workerTransfers: boolean
+): string[] {
+  const routes = app.node
+    .findAll()
+    .filter(
+      (construct): construct is CfnRoute =>
+        construct instanceof CfnRoute &&
+        construct.transitGatewayId !== undefined
+    );
+  const routed = (from: IWorker, to: IWorker) =>
+    routes.some(
+      (route) =>
+        Stack.of(route).region === from.region &&
+        route.destinationCidrBlock === to.cidr
+    );
+
+  const errors: string[] = [];
+  workers.forEach((worker, i) => {
+    const stack = workerStacks[i];
+    const lastPort =
+      WORKER_BASE_PORT + computeProfile(worker).workersPerTask * 2 - 1;
+    const ingress: CfnSecurityGroup.IngressProperty[] =
+      stack.resolve(
+        (stack.workerSecurityGroup.node.defaultChild as CfnSecurityGroup)
+          .securityGroupIngress
+      ) ?? [];
+    for (const peer of workers.filter(
+      ({ region }) => region !== worker.region
+    )) {
+      const reachable = routed(worker, peer) && routed(peer, worker);
+      const opened = ingress.some(
+        (rule) =>
+          rule.cidrIp === peer.cidr &&
+          rule.ipProtocol === "tcp" &&
+          rule.fromPort === WORKER_BASE_PORT &&
+          rule.toPort === lastPort
+      );
+      if (opened && !reachable) {
+        errors.push(
+          `The ${worker.region} workers open ports ${WORKER_BASE_PORT}-${lastPort} to ${peer.region} (${peer.cidr}), but the regions don't route to each other`
+        );
+      }
+      if (workerTransfers && reachable && !opened) {
+        errors.push(
+          `${worker.region} and ${peer.region} route to each other, but the ${worker.region} workers don't open ports ${WORKER_BASE_PORT}-${lastPort} to ${peer.cidr}`
+        );
+      }
+    }
+  });
+  return errors;
+}